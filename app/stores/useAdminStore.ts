@@ -0,0 +1,403 @@
+/**
+ * [STORE] :: ADMIN_STORE
+ * ----------------------------------------------------------------------
+ * Estado del panel /admin: sesión, listado completo de proyectos con su
+ * estado de extracción, cola de ingestas y acciones de curación
+ * (editar, revisar borradores, re-ingestar, limpiar cachés) contra
+ * /api/admin.
+ *
+ * La sesión es una cookie httpOnly: todas las llamadas usan $fetch
+ * same-origin y el navegador la adjunta solo.
+ *
+ * @module    stores/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { LockableField, Project, ProjectStatus } from "~~/shared/types";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/** Registro de ingesta resumido (ver IngestRun en prisma/schema) */
+export type AdminIngestRun = {
+  id: string;
+  source: string;
+  action: "save" | "delete" | "skip" | "unchanged";
+  reason: string | null;
+  createdAt: string;
+};
+
+/** Trabajo de la cola de ingestas (ver IngestJob en prisma/schema) */
+export type AdminIngestJob = {
+  id: string;
+  owner: string;
+  repo: string;
+  status: "pending" | "running" | "done" | "dead";
+  attempts: number;
+  last_error: string | null;
+  run_at: string;
+};
+
+/** Cambio de un campo entre la versión publicada y el borrador */
+export type AdminFieldChange = {
+  field: LockableField;
+  before: unknown;
+  after: unknown;
+};
+
+/** Proyecto tal y como lo devuelve GET /api/admin/projects */
+export type AdminProject = Project & {
+  locked_fields: LockableField[];
+  status: ProjectStatus;
+  draft_changes: AdminFieldChange[];
+  sort_order: number;
+  featured: boolean;
+  pinned: boolean;
+  content_hash: string | null;
+  extractor_version: string | null;
+  updatedAt: string;
+  last_run: AdminIngestRun | null;
+  job: AdminIngestJob | null;
+};
+
+/** Body de PATCH /api/admin/projects/:id */
+export type AdminProjectPatch = Partial<Omit<Project, "id" | "image">> & {
+  locked_fields?: LockableField[];
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const API_SESSION = "/api/admin/session";
+const API_PROJECTS = "/api/admin/projects";
+const API_JOBS = "/api/admin/ingest-jobs";
+const API_CLEAR_CACHE = "/api/admin/cache/clear";
+
+const PROJECTS_LIMIT = 500;
+const NOTICE_TTL_MS = 4000;
+
+export const useAdminStore = defineStore("admin", () => {
+  // =====================================================================
+  // [SECTION] :: STATE
+  // =====================================================================
+
+  /**
+   * [STATE] :: IS_AUTHENTICATED
+   * null = aún no comprobado (evita parpadeo del login).
+   */
+  const isAuthenticated = ref<boolean | null>(null);
+
+  /**
+   * [STATE] :: PROJECTS
+   * Todos los proyectos guardados, con última ingesta y trabajo activo.
+   */
+  const projects = ref<AdminProject[]>([]);
+
+  /**
+   * [STATE] :: QUEUED_JOBS
+   * Trabajos pendientes, en curso o muertos (incluye repos aún sin
+   * proyecto guardado).
+   */
+  const queuedJobs = ref<AdminIngestJob[]>([]);
+
+  /**
+   * [STATE] :: SELECTED_ID
+   * Proyecto abierto en el editor.
+   */
+  const selectedId = ref<string | null>(null);
+
+  /**
+   * [STATE] :: FEEDBACK
+   * Carga en curso, último error y aviso efímero de éxito.
+   */
+  const isLoading = ref(false);
+  const isSaving = ref(false);
+  const error = ref<string | null>(null);
+  const notice = ref<string | null>(null);
+
+  let noticeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // =====================================================================
+  // [SECTION] :: GETTERS
+  // =====================================================================
+
+  /**
+   * [COMPUTED] :: SELECTED_PROJECT
+   * Proyecto abierto en el editor (o null).
+   */
+  const selectedProject = computed(
+    () => projects.value.find((p) => p.id === selectedId.value) ?? null
+  );
+
+  // =====================================================================
+  // [SECTION] :: HELPERS
+  // =====================================================================
+
+  /**
+   * [UTIL] :: ERROR_MESSAGE
+   * Mensaje legible de un error de $fetch (H3 devuelve `data.message`).
+   */
+  const errorMessage = (e: any): string =>
+    e?.data?.message || e?.statusMessage || e?.message || String(e);
+
+  /**
+   * [UTIL] :: REPLACE_PROJECT
+   * Sustituye un proyecto del listado con la respuesta de una mutación
+   * (que no trae last_run/job/draft_changes: se conservan o recalculan).
+   */
+  const replaceProject = (id: string, updated: Partial<AdminProject>) => {
+    const index = projects.value.findIndex((p) => p.id === id);
+    if (index !== -1) {
+      projects.value[index] = { ...projects.value[index]!, ...updated };
+    }
+  };
+
+  /**
+   * [UTIL] :: SHOW_NOTICE
+   * Aviso temporal tras una acción correcta.
+   */
+  const showNotice = (message: string) => {
+    notice.value = message;
+    if (noticeTimer) clearTimeout(noticeTimer);
+    noticeTimer = setTimeout(() => {
+      notice.value = null;
+    }, NOTICE_TTL_MS);
+  };
+
+  /**
+   * [UTIL] :: HANDLE_ERROR
+   * Guarda el error; un 401 cierra la sesión local.
+   */
+  const handleError = (e: any) => {
+    if (e?.statusCode === 401 || e?.status === 401) {
+      isAuthenticated.value = false;
+    }
+    error.value = errorMessage(e);
+  };
+
+  // =====================================================================
+  // [SECTION] :: SESSION
+  // =====================================================================
+
+  /**
+   * [ACTION] :: CHECK_SESSION
+   * Consulta si la cookie de sesión sigue siendo válida.
+   */
+  const checkSession = async () => {
+    try {
+      const data = await $fetch<{ authenticated: boolean }>(API_SESSION);
+      isAuthenticated.value = data.authenticated;
+    } catch (e) {
+      isAuthenticated.value = false;
+      handleError(e);
+    }
+  };
+
+  /**
+   * [ACTION] :: LOGIN
+   * Canjea el token compartido por una sesión.
+   *
+   * @returns true si el login fue correcto.
+   */
+  const login = async (token: string): Promise<boolean> => {
+    error.value = null;
+    try {
+      await $fetch(API_SESSION, { method: "POST", body: { token } });
+      isAuthenticated.value = true;
+      return true;
+    } catch (e) {
+      handleError(e);
+      isAuthenticated.value = false;
+      return false;
+    }
+  };
+
+  /**
+   * [ACTION] :: LOGOUT
+   * Cierra la sesión y limpia el estado.
+   */
+  const logout = async () => {
+    await $fetch(API_SESSION, { method: "DELETE" }).catch(() => null);
+    isAuthenticated.value = false;
+    projects.value = [];
+    queuedJobs.value = [];
+    selectedId.value = null;
+  };
+
+  // =====================================================================
+  // [SECTION] :: DATA
+  // =====================================================================
+
+  /**
+   * [ACTION] :: FETCH_ALL
+   * Carga proyectos y cola en paralelo.
+   */
+  const fetchAll = async () => {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const [projectList, pending, running, dead] = await Promise.all([
+        $fetch<AdminProject[]>(API_PROJECTS, {
+          query: { limit: PROJECTS_LIMIT },
+        }),
+        $fetch<AdminIngestJob[]>(API_JOBS, { query: { status: "pending" } }),
+        $fetch<AdminIngestJob[]>(API_JOBS, { query: { status: "running" } }),
+        $fetch<AdminIngestJob[]>(API_JOBS, { query: { status: "dead" } }),
+      ]);
+      projects.value = projectList;
+      queuedJobs.value = [...running, ...pending, ...dead];
+    } catch (e) {
+      handleError(e);
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * [ACTION] :: SELECT_PROJECT
+   * Abre (o cierra con null) un proyecto en el editor.
+   */
+  const selectProject = (id: string | null) => {
+    selectedId.value = id;
+  };
+
+  // =====================================================================
+  // [SECTION] :: MUTATIONS
+  // =====================================================================
+
+  /**
+   * [ACTION] :: SAVE_PROJECT
+   * Envía un PATCH y sustituye el proyecto en el listado.
+   *
+   * @returns true si se guardó.
+   */
+  const saveProject = async (
+    id: string,
+    patch: AdminProjectPatch
+  ): Promise<boolean> => {
+    isSaving.value = true;
+    error.value = null;
+
+    try {
+      const updated = await $fetch<AdminProject>(`${API_PROJECTS}/${id}`, {
+        method: "PATCH",
+        body: patch,
+      });
+      replaceProject(id, updated);
+      showNotice(`'${id}' guardado`);
+      return true;
+    } catch (e) {
+      handleError(e);
+      return false;
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  /**
+   * [ACTION] :: PUBLISH_PROJECT
+   * Aprueba el proyecto: aplica el borrador pendiente y lo publica.
+   */
+  const publishProject = async (id: string) => {
+    isSaving.value = true;
+    error.value = null;
+
+    try {
+      const updated = await $fetch<AdminProject>(
+        `${API_PROJECTS}/${id}/publish`,
+        { method: "POST" }
+      );
+      replaceProject(id, { ...updated, draft_changes: [] });
+      showNotice(`'${id}' publicado`);
+    } catch (e) {
+      handleError(e);
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  /**
+   * [ACTION] :: DISCARD_DRAFT
+   * Rechaza el borrador pendiente (la versión publicada no cambia).
+   */
+  const discardDraft = async (id: string) => {
+    error.value = null;
+    try {
+      const updated = await $fetch<AdminProject>(
+        `${API_PROJECTS}/${id}/draft`,
+        { method: "DELETE" }
+      );
+      replaceProject(id, { ...updated, draft_changes: [] });
+      showNotice(`Borrador de '${id}' descartado`);
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  /**
+   * [ACTION] :: REINGEST_PROJECT
+   * Encola una re-ingesta forzada y refresca la cola.
+   */
+  const reingestProject = async (id: string) => {
+    error.value = null;
+    try {
+      const { deduplicated } = await $fetch<{ deduplicated: boolean }>(
+        `${API_PROJECTS}/${id}/reingest`,
+        { method: "POST" }
+      );
+      showNotice(
+        deduplicated
+          ? `'${id}' ya estaba en cola`
+          : `'${id}' encolado para re-ingesta`
+      );
+      await fetchAll();
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  /**
+   * [ACTION] :: CLEAR_CACHES
+   * Invalida las cachés públicas de proyectos.
+   */
+  const clearCaches = async () => {
+    error.value = null;
+    try {
+      const { deleted } = await $fetch<{ deleted: number }>(API_CLEAR_CACHE, {
+        method: "POST",
+      });
+      showNotice(`Cachés limpiadas (${deleted} claves)`);
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  return {
+    // Estado
+    isAuthenticated,
+    projects,
+    queuedJobs,
+    selectedId,
+    isLoading,
+    isSaving,
+    error,
+    notice,
+    selectedProject,
+
+    // Acciones (API pública)
+    checkSession,
+    login,
+    logout,
+    fetchAll,
+    selectProject,
+    saveProject,
+    publishProject,
+    discardDraft,
+    reingestProject,
+    clearCaches,
+  };
+});
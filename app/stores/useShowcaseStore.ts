@@ -5,9 +5,12 @@
  * ----------------------------------------------------------------------
  * Implements a PREFETCH STRATEGY for optimal performance:
  * - Technologies are loaded on init (blocking).
- * - All projects are prefetched in background (non-blocking, client-only).
+ * - All projects are prefetched in background (non-blocking, client-only),
+ *   paging through the API cursor until the dataset is complete.
  * - Project images are preloaded into browser cache.
  * - Tech selection filters locally = instant navigation.
+ * - Secondary stack filter (e.g. Nuxt + GSAP) also filters locally.
+ * - Server ordering (pinned + manual sort_order) is kept when filtering.
  *
  * @performance Eliminates API calls and image loading delays on navigation.
  * @module      stores/showcase
@@ -15,7 +18,14 @@
  * ----------------------------------------------------------------------
  */
 
-import type { Project } from "~~/shared/types";
+import type {
+  Project,
+  ProjectPage,
+  ProjectSearchResult,
+  ProjectSort,
+  TechCount,
+} from "~~/shared/types";
+import { canonicalTech } from "~~/shared/techs";
 
 // =====================================================================
 // [SECTION] :: CONSTANTS
@@ -24,6 +34,26 @@ import type { Project } from "~~/shared/types";
 /** TTL de caché en milisegundos (30 minutos) */
 const CACHE_TTL_MS = 30 * 60 * 1000;
 
+/** Orden del escaparate: fijados y orden manual definidos en /admin */
+const PROJECTS_SORT: ProjectSort = "manual";
+
+/** Tamaño de página de /api/projects (el máximo que admite el servidor) */
+const PROJECTS_PAGE_SIZE = 100;
+
+/** Búsqueda: longitud mínima (la misma que exige el servidor) y límite */
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_LIMIT = 20;
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: TECH_KEY
+ * Clave de agrupación de una tecnología (nombre canónico sin mayúsculas).
+ */
+const techKey = (tech: string): string => canonicalTech(tech).toLowerCase();
+
 export const useShowcaseStore = defineStore("showcase", () => {
   // =====================================================================
   // [SECTION] :: STATE
@@ -44,11 +74,10 @@ export const useShowcaseStore = defineStore("showcase", () => {
   const allProjectsCache = ref<Project[]>([]);
 
   /**
-   * [STATE] :: PROJECTS (Reactive Filtered View)
-   * "Lo que servimos en la mesa" - Proyectos visibles actualmente.
-   * Filtrado por tecnología activa.
+   * [STATE] :: TECH_PROJECTS
+   * Proyectos de la tecnología activa, antes del filtro de stack.
    */
-  const projects = ref<Project[]>([]);
+  const techProjects = ref<Project[]>([]);
 
   /**
    * [STATE] :: ACTIVE_TECH
@@ -56,6 +85,13 @@ export const useShowcaseStore = defineStore("showcase", () => {
    */
   const activeTech = ref<string | null>(null);
 
+  /**
+   * [STATE] :: STACK_FILTER
+   * Tecnologías secundarias que deben usar todos los proyectos visibles
+   * (ej: Nuxt + GSAP). Se vacía al cambiar de tecnología.
+   */
+  const stackFilter = ref<string[]>([]);
+
   /**
    * [STATE] :: VIEW_MODE
    * Modo de diseño actual: 'hero' (landing) o 'sidebar' (navegación).
@@ -83,6 +119,63 @@ export const useShowcaseStore = defineStore("showcase", () => {
    */
   const lastFetchTimestamp = ref<number | null>(null);
 
+  /**
+   * [STATE] :: SEARCH
+   * Texto buscado y resultados de /api/projects/search (por relevancia).
+   */
+  const searchQuery = ref("");
+  const searchResults = ref<ProjectSearchResult[]>([]);
+  const isSearching = ref(false);
+
+  // =====================================================================
+  // [SECTION] :: GETTERS
+  // =====================================================================
+
+  /**
+   * [COMPUTED] :: PROJECTS (Reactive Filtered View)
+   * "Lo que servimos en la mesa" - Proyectos visibles actualmente.
+   * Filtrado por tecnología activa y, si lo hay, por el filtro de stack.
+   */
+  const projects = computed(() => {
+    if (stackFilter.value.length === 0) return techProjects.value;
+
+    const required = stackFilter.value.map((tech) => tech.toLowerCase());
+    return techProjects.value.filter((p) => {
+      const stack = p.tech_stack.map((tech) => tech.toLowerCase());
+      return required.every((tech) => stack.includes(tech));
+    });
+  });
+
+  /**
+   * [COMPUTED] :: STACK_OPTIONS
+   * Tecnologías secundarias de la tecnología activa, de la más usada a la
+   * menos (sin la propia tecnología activa).
+   */
+  const stackOptions = computed(() => {
+    const active = activeTech.value?.toLowerCase();
+    const counts = new Map<string, number>();
+
+    for (const project of techProjects.value) {
+      for (const tech of project.tech_stack) {
+        if (tech.toLowerCase() === active) continue;
+        counts.set(tech, (counts.get(tech) ?? 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([tech]) => tech);
+  });
+
+  /**
+   * [COMPUTED] :: FEATURED_PROJECTS
+   * Proyectos destacados para la fila del hero, en el orden del servidor.
+   * Vacío hasta que termina el prefetch.
+   */
+  const featuredProjects = computed(() =>
+    allProjectsCache.value.filter((p) => p.featured)
+  );
+
   // =====================================================================
   // [SECTION] :: CACHE VALIDATION
   // =====================================================================
@@ -129,9 +222,15 @@ export const useShowcaseStore = defineStore("showcase", () => {
     try {
       // FASE 1: Cargar tecnologías
       // useFetch está bien aquí porque necesitamos reactividad y contexto
-      const { data } = await useFetch<string[]>("/api/projects/techs");
+      // La API devuelve `{ name, count }`; se aceptan también strings por
+      // si una caché anterior al cambio aún sirve la lista antigua
+      const { data } = await useFetch<(TechCount | string)[]>(
+        "/api/projects/techs"
+      );
       if (data.value) {
-        technologies.value = data.value;
+        technologies.value = data.value.map((tech) =>
+          typeof tech === "string" ? tech : tech.name
+        );
         // Actualizar timestamp al obtener fetch exitoso
         lastFetchTimestamp.value = Date.now();
       }
@@ -155,6 +254,36 @@ export const useShowcaseStore = defineStore("showcase", () => {
   // [SECTION] :: PREFETCH STRATEGY
   // =====================================================================
 
+  /**
+   * [UTIL] :: FETCH_ALL_PAGES
+   * Recorre /api/projects página a página (siguiendo `nextCursor`) hasta
+   * traer todos los proyectos que cumplen los filtros.
+   *
+   * @param filters - Filtros del listado (ej: primary_tech).
+   * @returns Proyectos en el orden del servidor.
+   */
+  const fetchAllPages = async (
+    filters: Record<string, string> = {}
+  ): Promise<Project[]> => {
+    const all: Project[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page: ProjectPage = await $fetch<ProjectPage>("/api/projects", {
+        query: {
+          ...filters,
+          limit: PROJECTS_PAGE_SIZE,
+          sort: PROJECTS_SORT,
+          ...(cursor ? { cursor } : {}),
+        },
+      });
+      all.push(...page.projects);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return all;
+  };
+
   /**
    * [ACTION] :: PREFETCH_ALL_PROJECTS
    * Tarea en segundo plano que carga el dataset completo de proyectos.
@@ -167,9 +296,8 @@ export const useShowcaseStore = defineStore("showcase", () => {
     try {
       // CRÍTICO: Usar $fetch, no useFetch
       // $fetch devuelve datos crudos, no necesita contexto Vue
-      const data = await $fetch<Project[]>("/api/projects", {
-        query: { limit: 100 },
-      });
+      // Todas las páginas: nada se queda fuera pase de los proyectos que pase
+      const data = await fetchAllPages();
 
       if (data) {
         allProjectsCache.value = data;
@@ -252,6 +380,7 @@ export const useShowcaseStore = defineStore("showcase", () => {
    */
   const selectTech = async (tech: string) => {
     activeTech.value = tech;
+    stackFilter.value = [];
 
     // Cambio automático a vista sidebar
     if (viewMode.value === "hero") {
@@ -261,8 +390,12 @@ export const useShowcaseStore = defineStore("showcase", () => {
     // Estrategia: Usar caché si está disponible (instantaneo), fetch si no
     if (allProjectsCache.value.length > 0) {
       // Filtrar desde caché - navegación instantánea
-      projects.value = allProjectsCache.value.filter(
-        (p) => p.primary_tech === tech
+      // filter() conserva el orden del servidor (fijados + sort_order)
+      // Misma clave que countPrimaryTechs (canónica, sin mayúsculas): las
+      // grafías que agrupa bajo `tech` (ej: 'VueJS' en filas antiguas) cuentan
+      const key = techKey(tech);
+      techProjects.value = allProjectsCache.value.filter(
+        (p) => techKey(p.primary_tech) === key
       );
     } else {
       // Fallback: Usuario hizo click antes de terminar prefetch,
@@ -270,6 +403,18 @@ export const useShowcaseStore = defineStore("showcase", () => {
     }
   };
 
+  /**
+   * [ACTION] :: TOGGLE_STACK_FILTER
+   * Añade o quita una tecnología secundaria del filtro de stack.
+   *
+   * @param tech - Tecnología del stack (ej: 'GSAP').
+   */
+  const toggleStackFilter = (tech: string) => {
+    stackFilter.value = stackFilter.value.includes(tech)
+      ? stackFilter.value.filter((t) => t !== tech)
+      : [...stackFilter.value, tech];
+  };
+
   /**
    * [ACTION] :: SET_VIEW_MODE
    * Cambia manualmente entre diseños hero y sidebar.
@@ -296,26 +441,67 @@ export const useShowcaseStore = defineStore("showcase", () => {
 
     try {
       // Usar $fetch en lugar de useFetch - se puede llamar tras montar componente
-      const data = await $fetch<Project[]>("/api/projects", {
-        query: {
-          primary_tech: tech,
-          limit: 50,
-        },
-      });
+      const data = await fetchAllPages({ primary_tech: tech });
 
       if (data) {
-        projects.value = data;
+        techProjects.value = data;
       } else {
-        projects.value = [];
+        techProjects.value = [];
       }
     } catch (e) {
       console.error(`[ShowcaseStore] Failed to fetch projects for ${tech}:`, e);
-      projects.value = [];
+      techProjects.value = [];
     } finally {
       isProjectsLoading.value = false;
     }
   };
 
+  // =====================================================================
+  // [SECTION] :: SEARCH
+  // =====================================================================
+
+  /**
+   * [ACTION] :: SEARCH_PROJECTS
+   * Búsqueda de texto completo en el servidor. Por debajo de la longitud
+   * mínima limpia los resultados sin llamar a la API. Si llega una
+   * respuesta de una búsqueda anterior, se descarta.
+   *
+   * @param text - Texto de búsqueda.
+   */
+  const searchProjects = async (text: string) => {
+    const query = text.trim();
+    searchQuery.value = query;
+
+    if (query.length < SEARCH_MIN_LENGTH) {
+      searchResults.value = [];
+      return;
+    }
+
+    isSearching.value = true;
+
+    try {
+      const data = await $fetch<ProjectSearchResult[]>("/api/projects/search", {
+        query: { q: query, limit: SEARCH_LIMIT },
+      });
+      if (searchQuery.value === query) searchResults.value = data ?? [];
+    } catch (e) {
+      console.error(`[ShowcaseStore] Search failed for "${query}":`, e);
+      if (searchQuery.value === query) searchResults.value = [];
+    } finally {
+      if (searchQuery.value === query) isSearching.value = false;
+    }
+  };
+
+  /**
+   * [ACTION] :: CLEAR_SEARCH
+   * Vacía el texto y los resultados de búsqueda.
+   */
+  const clearSearch = () => {
+    searchQuery.value = "";
+    searchResults.value = [];
+    isSearching.value = false;
+  };
+
   // =====================================================================
   // [SECTION] :: CACHE INVALIDATION
   // =====================================================================
@@ -329,7 +515,8 @@ export const useShowcaseStore = defineStore("showcase", () => {
     lastFetchTimestamp.value = null;
     technologies.value = [];
     allProjectsCache.value = [];
-    projects.value = [];
+    techProjects.value = [];
+    stackFilter.value = [];
     console.log("[ShowcaseStore] Cache invalidated");
   };
 
@@ -341,15 +528,24 @@ export const useShowcaseStore = defineStore("showcase", () => {
     // Estado (Solo lectura para componentes)
     technologies,
     projects,
+    featuredProjects,
     activeTech,
+    stackFilter,
+    stackOptions,
     viewMode,
     isTechLoading,
     isProjectsLoading,
+    searchQuery,
+    searchResults,
+    isSearching,
 
     // Acciones (API pública)
     init,
     selectTech,
+    toggleStackFilter,
     setViewMode,
+    searchProjects,
+    clearSearch,
     invalidateCache,
 
     // Utilidades de rastreo de imágenes
@@ -1,4 +1,6 @@
 import tailwindcss from "@tailwindcss/vite";
+import { CONTENT_LOCALES, DEFAULT_CONTENT_LOCALE } from "./shared/locales";
+
 export default defineNuxtConfig({
   compatibilityDate: "2025-07-15",
   devtools: { enabled: true },
@@ -16,23 +18,75 @@ export default defineNuxtConfig({
     "@pinia/nuxt",
   ],
 
+  // Panel de curación: solo cliente (sesión por cookie, sin SEO)
+  routeRules: {
+    "/admin": { ssr: false },
+    "/admin/**": { ssr: false },
+  },
+
+  // Las imágenes ya llegan redimensionadas desde la ingesta (/media)
+  image: {
+    provider: "none",
+  },
+
   runtimeConfig: {
     neonDatabaseUrl: process.env.NEON_DATABASE_URL,
+    // Modo de extracción (ai | heuristic | ai-with-fallback)
+    extractionMode: process.env.NUXT_EXTRACTION_MODE || "ai",
+    // Proveedor LLM de extracción (openai | ollama | stub)
+    ai: {
+      provider: process.env.NUXT_AI_PROVIDER || "openai",
+      baseUrl: process.env.NUXT_AI_BASE_URL || "",
+      model: process.env.NUXT_AI_MODEL || "",
+      apiKey: process.env.NUXT_AI_API_KEY || "",
+    },
+    // GitHub App (si falta, se usa el PAT GITHUB_SEED_TOKEN)
+    githubApp: {
+      appId: process.env.NUXT_GITHUB_APP_ID || "",
+      privateKey: process.env.NUXT_GITHUB_APP_PRIVATE_KEY || "",
+    },
+    // Imágenes espejadas (local | unstorage => montaje 'media' de nitro.storage)
+    media: {
+      driver: process.env.NUXT_MEDIA_DRIVER || "local",
+      dir: process.env.NUXT_MEDIA_DIR || ".data/media",
+      publicUrl: process.env.NUXT_MEDIA_PUBLIC_URL || "/media",
+    },
+    // Token compartido para endpoints /api/admin
+    adminToken: process.env.NUXT_ADMIN_TOKEN || "",
+    // Revisión editorial de extracciones (off | new | all)
+    reviewPolicy: process.env.NUXT_REVIEW_POLICY || "off",
+    // Bearer con el que Vercel Cron llama a /api/cron/ingest
+    cronSecret: process.env.CRON_SECRET || "",
+  },
+
+  // Cola de ingestas: tarea programada en servidores Node; en Vercel
+  // (sin proceso persistente ni tareas) la drena Vercel Cron
+  nitro: {
+    experimental: { tasks: true },
+    scheduledTasks: { "* * * * *": ["ingest:drain"] },
+    vercel: {
+      config: {
+        crons: [{ path: "/api/cron/ingest", schedule: "* * * * *" }],
+      },
+    },
   },
 
   srcDir: "app",
   i18n: {
-    locales: [
-      { code: "en", language: "en-US", file: "en.json" },
-      { code: "es", language: "es-ES", file: "es.json" },
-    ],
-    defaultLocale: "en",
+    // Idiomas definidos en shared/locales (uno por fichero en i18n/locales)
+    locales: CONTENT_LOCALES.map(({ code, language, name }) => ({
+      code,
+      language,
+      name,
+      file: `${code}.json`,
+    })),
+    defaultLocale: DEFAULT_CONTENT_LOCALE,
     strategy: "no_prefix",
     langDir: "locales",
     detectBrowserLanguage: {
       useCookie: true,
       cookieKey: "i18n_redirected",
-      fallbackLocale: "en",
+      fallbackLocale: DEFAULT_CONTENT_LOCALE,
     },
   },
 });
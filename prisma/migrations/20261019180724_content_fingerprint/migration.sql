@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "content_hash" TEXT,
+ADD COLUMN     "extractor_version" TEXT;
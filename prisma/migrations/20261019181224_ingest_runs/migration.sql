@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "IngestRun" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "repo" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "reason" TEXT,
+    "project_id" TEXT,
+    "duration_ms" INTEGER NOT NULL,
+    "model" TEXT,
+    "validation_errors" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IngestRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestRun_repo_createdAt_idx" ON "IngestRun"("repo", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "IngestRun_createdAt_idx" ON "IngestRun"("createdAt");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "IngestJob" (
+    "id" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "repo" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'webhook',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "dedupe_key" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IngestJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IngestJob_dedupe_key_key" ON "IngestJob"("dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "IngestJob_status_run_at_idx" ON "IngestJob"("status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "IngestJob_owner_repo_status_idx" ON "IngestJob"("owner", "repo", "status");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IngestJob" ADD COLUMN     "force" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "WebhookDelivery" (
+    "id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "action" TEXT,
+    "owner" TEXT,
+    "repo" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "outcome" JSONB,
+    "redeliveries" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_createdAt_idx" ON "WebhookDelivery"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_repo_createdAt_idx" ON "WebhookDelivery"("repo", "createdAt");
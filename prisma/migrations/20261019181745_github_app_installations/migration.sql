@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "GitHubInstallation" (
+    "id" INTEGER NOT NULL,
+    "account_login" TEXT NOT NULL,
+    "account_type" TEXT NOT NULL,
+    "repository_selection" TEXT NOT NULL,
+    "suspended" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GitHubInstallation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TrackedRepo" (
+    "id" INTEGER NOT NULL,
+    "installation_id" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "private" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TrackedRepo_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GitHubInstallation_account_login_idx" ON "GitHubInstallation"("account_login");
+
+-- CreateIndex
+CREATE INDEX "TrackedRepo_installation_id_idx" ON "TrackedRepo"("installation_id");
+
+-- CreateIndex
+CREATE INDEX "TrackedRepo_owner_name_idx" ON "TrackedRepo"("owner", "name");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "locked_fields" TEXT[] DEFAULT ARRAY[]::TEXT[];
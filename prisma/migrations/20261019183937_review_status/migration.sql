@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "draft" JSONB,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'published';
+
+-- CreateIndex
+CREATE INDEX "Project_status_idx" ON "Project"("status");
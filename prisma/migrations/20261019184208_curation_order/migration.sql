@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "featured" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "sort_order" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Project_pinned_sort_order_idx" ON "Project"("pinned", "sort_order");
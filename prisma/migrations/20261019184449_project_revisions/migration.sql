@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "IngestJob" ADD COLUMN     "commit_sha" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProjectRevision" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "commit_sha" TEXT,
+    "model" TEXT,
+    "changed_fields" TEXT[],
+    "snapshot" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectRevision_project_id_createdAt_idx" ON "ProjectRevision"("project_id", "createdAt");
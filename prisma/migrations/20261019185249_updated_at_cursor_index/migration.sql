@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Project_updatedAt_id_idx" ON "Project"("updatedAt", "id");
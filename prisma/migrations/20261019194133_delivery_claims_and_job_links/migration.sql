@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "IngestRun" ADD COLUMN     "job_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ADD COLUMN     "claimed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "job_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "IngestRun_job_id_idx" ON "IngestRun"("job_id");
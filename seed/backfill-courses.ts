@@ -0,0 +1,75 @@
+/**
+ * [SCRIPT] :: BACKFILL_COURSES
+ * ----------------------------------------------------------------------
+ * Enlaza los proyectos existentes con sus Course/Author a partir de su
+ * `origin` (mismo emparejamiento difuso que la ingesta). No vuelve a
+ * extraer nada. Se puede repetir: los cursos ya creados se reutilizan.
+ *
+ * @module    seed/backfill-courses
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import "dotenv/config";
+import { prisma } from "../server/utils/prisma";
+import { resolveCourse } from "../server/utils/courses";
+import type { OriginType } from "../shared/types";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const FLAG_DRY_RUN = "--dry-run"; // Solo lista los origins, sin escribir
+const DRY_RUN = process.argv.slice(2).includes(FLAG_DRY_RUN);
+
+// =====================================================================
+// [SECTION] :: MAIN EXECUTION
+// =====================================================================
+
+async function main() {
+  console.log(
+    `\n[SEED]  >> BACKFILL      :: courses${DRY_RUN ? " | DRY_RUN" : ""}\n`
+  );
+
+  try {
+    // Más antiguos primero: el primer nombre visto de un curso es el que queda
+    const projects = await prisma.project.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+
+    let linked = 0;
+
+    for (const project of projects) {
+      const origin = project.origin as OriginType;
+      if (!origin?.is_course) continue;
+
+      console.log(
+        `[DATA]  :: COURSE        :: id: ${project.id} | name: ${origin.name ?? "-"} | author: ${origin.author ?? "-"}`
+      );
+      if (DRY_RUN) continue;
+
+      const courseId = await resolveCourse(origin);
+      if (courseId === project.course_id) continue;
+
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { course_id: courseId },
+      });
+
+      linked++;
+      console.log(`[DB]    ++ LINKED        :: id: ${project.id}`);
+    }
+
+    const courses = DRY_RUN ? 0 : await prisma.course.count();
+    console.log(
+      `\n[DONE]  :: BACKFILL_OK   :: linked: ${linked} | courses: ${courses} | total: ${projects.length}`
+    );
+  } catch (error) {
+    console.error("[ERR]   :: FATAL         ::", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
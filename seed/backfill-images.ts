@@ -0,0 +1,73 @@
+/**
+ * [SCRIPT] :: BACKFILL_IMAGES
+ * ----------------------------------------------------------------------
+ * Espeja y procesa las imágenes de proyectos ya guardados (variantes,
+ * dimensiones, color dominante, LQIP) sin re-extraer el README.
+ * Por defecto solo los que no tienen imagen procesada o cuya URL cambió.
+ *
+ * @module    seed/backfill-images
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import "dotenv/config";
+import { processProjectImage } from "../server/utils/images";
+import { jsonColumn, prisma } from "../server/utils/prisma";
+import type { ProjectImage } from "../shared/types";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const FLAG_FORCE = "--force"; // Reprocesa también las ya espejadas
+const FORCE = process.argv.slice(2).includes(FLAG_FORCE);
+
+// =====================================================================
+// [SECTION] :: MAIN EXECUTION
+// =====================================================================
+
+async function main() {
+  console.log(
+    `\n[SEED]  >> BACKFILL      :: images${FORCE ? " | FORCE" : ""}\n`
+  );
+
+  try {
+    const projects = await prisma.project.findMany({
+      where: { img_url: { not: null } },
+      select: { id: true, img_url: true, image: true },
+    });
+
+    let updated = 0;
+    let failed = 0;
+
+    for (const project of projects) {
+      const current = project.image as ProjectImage | null;
+      if (!FORCE && current?.source_url === project.img_url) continue;
+
+      try {
+        const image = await processProjectImage(project.id, project.img_url!);
+        await prisma.project.update({
+          where: { id: project.id },
+          data: { image: jsonColumn(image) },
+        });
+        updated++;
+      } catch (err: any) {
+        failed++;
+        console.error(
+          `[ERR]   :: MIRROR        :: id: ${project.id} | ${err.message}`
+        );
+      }
+    }
+
+    console.log(
+      `\n[DONE]  :: BACKFILL_OK   :: updated: ${updated} | failed: ${failed} | total: ${projects.length}`
+    );
+  } catch (error) {
+    console.error("[ERR]   :: FATAL         ::", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
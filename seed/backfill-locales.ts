@@ -0,0 +1,112 @@
+/**
+ * [SCRIPT] :: BACKFILL_LOCALES
+ * ----------------------------------------------------------------------
+ * Rellena los idiomas de contenido que falten en proyectos existentes.
+ * Traduce tagline/description desde el idioma por defecto sin volver a
+ * extraer el README. Útil tras añadir un idioma en shared/locales.
+ *
+ * @module    seed/backfill-locales
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import "dotenv/config";
+import type { Prisma } from "@prisma/client";
+import { translateMissingLocales } from "../server/utils/ai";
+import { createExtractionProvider } from "../server/utils/providers";
+import { prisma } from "../server/utils/prisma";
+import {
+  CONTENT_LOCALE_CODES,
+  missingLocales,
+  type ContentLocale,
+} from "../shared/locales";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const FLAG_DRY_RUN = "--dry-run"; // Solo lista lo que falta, sin llamar a la IA
+const DRY_RUN = process.argv.slice(2).includes(FLAG_DRY_RUN);
+
+type StoredText = Partial<Record<string, string>>;
+
+// =====================================================================
+// [SECTION] :: MAIN EXECUTION
+// =====================================================================
+
+async function main() {
+  console.log(
+    `\n[SEED]  >> BACKFILL      :: locales: ${CONTENT_LOCALE_CODES.join(", ")}${
+      DRY_RUN ? " | DRY_RUN" : ""
+    }\n`
+  );
+
+  try {
+    const provider = DRY_RUN ? null : createExtractionProvider();
+    if (provider) {
+      console.log(
+        `[CONF]  >> PROVIDER      :: ${provider.name} | model: ${provider.model}`
+      );
+    }
+
+    const projects = await prisma.project.findMany({
+      select: { id: true, tagline: true, description: true },
+    });
+
+    let updated = 0;
+    let failed = 0;
+
+    for (const project of projects) {
+      const tagline = (project.tagline ?? {}) as StoredText;
+      const description = (project.description ?? {}) as StoredText;
+
+      const missing = [
+        ...new Set<ContentLocale>([
+          ...missingLocales(tagline),
+          ...missingLocales(description),
+        ]),
+      ];
+      if (missing.length === 0) continue;
+
+      console.log(
+        `[DATA]  :: MISSING       :: id: ${project.id} | locales: ${missing.join(", ")}`
+      );
+      if (!provider) continue;
+
+      try {
+        const translated = await translateMissingLocales(
+          { tagline, description },
+          missing,
+          provider
+        );
+
+        await prisma.project.update({
+          where: { id: project.id },
+          data: {
+            tagline: translated.tagline as Prisma.InputJsonValue,
+            description: translated.description as Prisma.InputJsonValue,
+          },
+        });
+
+        updated++;
+        console.log(`[DB]    ++ SAVED         :: id: ${project.id}`);
+      } catch (err: any) {
+        failed++;
+        console.error(
+          `[ERR]   :: TRANSLATE     :: id: ${project.id} | ${err.message}`
+        );
+      }
+    }
+
+    console.log(
+      `\n[DONE]  :: BACKFILL_OK   :: updated: ${updated} | failed: ${failed} | total: ${projects.length}`
+    );
+  } catch (error) {
+    console.error("[ERR]   :: FATAL         ::", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
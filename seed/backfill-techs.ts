@@ -0,0 +1,74 @@
+/**
+ * [SCRIPT] :: BACKFILL_TECHS
+ * ----------------------------------------------------------------------
+ * Normaliza `primary_tech` y `tech_stack` de los proyectos existentes
+ * con el registro de tecnologías ("Vue.js", "VueJS" -> "Vue"). No vuelve
+ * a extraer nada. Útil tras añadir alias o tecnologías en shared/techs.
+ *
+ * @module    seed/backfill-techs
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import "dotenv/config";
+import { prisma } from "../server/utils/prisma";
+import { recordRevision } from "../server/utils/revisions";
+import { canonicalTech, canonicalTechStack } from "../shared/techs";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const FLAG_DRY_RUN = "--dry-run"; // Solo lista los cambios, sin escribir
+const DRY_RUN = process.argv.slice(2).includes(FLAG_DRY_RUN);
+
+// =====================================================================
+// [SECTION] :: MAIN EXECUTION
+// =====================================================================
+
+async function main() {
+  console.log(
+    `\n[SEED]  >> BACKFILL      :: techs${DRY_RUN ? " | DRY_RUN" : ""}\n`
+  );
+
+  try {
+    const projects = await prisma.project.findMany();
+
+    let updated = 0;
+
+    for (const project of projects) {
+      const primaryTech = canonicalTech(project.primary_tech);
+      const techStack = canonicalTechStack(project.tech_stack);
+
+      const changed =
+        primaryTech !== project.primary_tech ||
+        techStack.join("|") !== project.tech_stack.join("|");
+      if (!changed) continue;
+
+      console.log(
+        `[DATA]  :: RENAME        :: id: ${project.id} | ${project.primary_tech} -> ${primaryTech} | [${project.tech_stack.join(", ")}] -> [${techStack.join(", ")}]`
+      );
+      if (DRY_RUN) continue;
+
+      const saved = await prisma.project.update({
+        where: { id: project.id },
+        data: { primary_tech: primaryTech, tech_stack: techStack },
+      });
+      await recordRevision(project.id, project, saved, { source: "seed" });
+
+      updated++;
+      console.log(`[DB]    ++ SAVED         :: id: ${project.id}`);
+    }
+
+    console.log(
+      `\n[DONE]  :: BACKFILL_OK   :: updated: ${updated} | total: ${projects.length}`
+    );
+  } catch (error) {
+    console.error("[ERR]   :: FATAL         ::", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,85 @@
+/**
+ * [SCRIPT] :: LOCK_FIELDS
+ * ----------------------------------------------------------------------
+ * Bloquea (o desbloquea) campos de un proyecto tras corregirlos a mano,
+ * para que la siguiente ingesta no los sobrescriba.
+ *
+ *   pnpm lock-fields <id>                       -> muestra los bloqueos
+ *   pnpm lock-fields <id> tagline primary_tech  -> bloquea
+ *   pnpm lock-fields <id> tagline --unlock      -> desbloquea
+ *
+ * @module    seed/lock-fields
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import "dotenv/config";
+import { prisma } from "../server/utils/prisma";
+import {
+  getLockedFields,
+  isLockableField,
+  setFieldLocks,
+} from "../server/utils/locks";
+import { LOCKABLE_FIELDS } from "../shared/types";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const FLAG_UNLOCK = "--unlock"; // Desbloquea en lugar de bloquear
+const CLI_ARGS = process.argv.slice(2);
+const UNLOCK = CLI_ARGS.includes(FLAG_UNLOCK);
+
+// =====================================================================
+// [SECTION] :: MAIN EXECUTION
+// =====================================================================
+
+async function main() {
+  const [projectId, ...fields] = CLI_ARGS.filter((arg) => arg !== FLAG_UNLOCK);
+
+  if (!projectId) {
+    console.error(
+      `[ERR]   :: USAGE         :: pnpm lock-fields <id> [field...] [${FLAG_UNLOCK}]`
+    );
+    console.error(`[ERR]   :: FIELDS        :: ${LOCKABLE_FIELDS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const invalid = fields.filter((field) => !isLockableField(field));
+  if (invalid.length > 0) {
+    console.error(
+      `[ERR]   :: BAD_FIELD     :: ${invalid.join(", ")} (valid: ${LOCKABLE_FIELDS.join(", ")})`
+    );
+    process.exit(1);
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+    if (!project) {
+      console.error(`[ERR]   :: NOT_FOUND     :: id: ${projectId}`);
+      process.exit(1);
+    }
+
+    const validFields = fields.filter(isLockableField);
+    const locked =
+      validFields.length === 0
+        ? await getLockedFields(projectId)
+        : UNLOCK
+          ? await setFieldLocks(projectId, [], validFields)
+          : await setFieldLocks(projectId, validFields);
+
+    console.log(
+      `\n[DONE]  :: LOCKS         :: id: ${projectId} | locked: ${locked.join(", ") || "none"}`
+    );
+  } catch (error) {
+    console.error("[ERR]   :: FATAL         ::", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
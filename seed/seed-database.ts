@@ -10,30 +10,112 @@
  */
 
 import "dotenv/config";
-import { Octokit } from "octokit";
-import { ingestProject } from "../server/utils/ingest";
-import { type Project } from "../shared/types";
+import {
+  ingestProject,
+  pruneProject,
+  saveProject,
+  type IngestResult,
+} from "../server/utils/ingest";
 import { prisma } from "../server/utils/prisma";
+import { recordIngestRun } from "../server/utils/runs";
+import { linkProjectCourse } from "../server/utils/courses";
+import {
+  getGitHubAppConfig,
+  getOctokitForOwner,
+  listInstallationRepos,
+} from "../server/utils/github";
 
 // =====================================================================
 // [SECTION] :: CONFIGURATION
 // =====================================================================
 
+const FLAG_FORCE = "--force"; // Re-extrae aunque el README no haya cambiado
+const CLI_ARGS = process.argv.slice(2);
+
 const GITHUB_TOKEN = process.env.GITHUB_SEED_TOKEN;
-const GITHUB_USERNAME = process.argv[2] || process.env.GITHUB_USERNAME;
+const GITHUB_USERNAME =
+  CLI_ARGS.find((arg) => !arg.startsWith("--")) || process.env.GITHUB_USERNAME;
+const FORCE = CLI_ARGS.includes(FLAG_FORCE);
+const APP_MODE = getGitHubAppConfig() !== null; // GitHub App en vez de PAT
 
 const DEFAULT_PER_PAGE = 100;
 const DEFAULT_BRANCH = "main";
+const GITHUB_BASE_URL = "https://github.com";
 
-if (!GITHUB_TOKEN) {
+if (!GITHUB_TOKEN && !APP_MODE) {
   console.error(
-    "[ERR]   :: MISSING_ENV   :: GITHUB_SEED_TOKEN is missing in .env"
+    "[ERR]   :: MISSING_ENV   :: GITHUB_SEED_TOKEN (or NUXT_GITHUB_APP_ID + NUXT_GITHUB_APP_PRIVATE_KEY) is missing in .env"
   );
   process.exit(1);
 }
 
 const USERNAME = GITHUB_USERNAME as string;
-const OCTOKIT = new Octokit({ auth: GITHUB_TOKEN });
+
+// =====================================================================
+// [SECTION] :: PRUNING
+// =====================================================================
+
+/**
+ * [DB] :: FIND_MISSING_PROJECTS
+ * Proyectos del usuario cuyo repo ya no está en el listado (borrado,
+ * privado, archivado o fork). Los de otros owners no se tocan.
+ */
+async function findMissingProjects(listedIds: string[]): Promise<string[]> {
+  const missing = await prisma.project.findMany({
+    where: {
+      id: { notIn: listedIds },
+      repo_url: {
+        startsWith: `${GITHUB_BASE_URL}/${USERNAME}/`,
+        mode: "insensitive",
+      },
+    },
+    select: { id: true },
+  });
+  return missing.map((project) => project.id);
+}
+
+/**
+ * [DELETE] :: PRUNE_PROJECTS
+ * Borra los candidatos salvo los curados a mano (ver PRUNE_PROJECT: la
+ * misma regla que la cola del webhook).
+ */
+async function pruneProjects(ids: string[]): Promise<void> {
+  console.log(`\n[DB]    >> CLEANING      :: candidates: ${ids.length}`);
+  for (const id of ids) await pruneProject(id);
+}
+
+// =====================================================================
+// [SECTION] :: COURSES
+// =====================================================================
+
+/**
+ * [PERSIST] :: LINK_UNCHANGED_COURSES
+ * Los proyectos sin cambios no pasan por saveProject: los que vienen de
+ * un curso y aún no tienen `course_id` se enlazan aquí (más antiguos
+ * primero, como en backfill-courses).
+ */
+async function linkUnchangedCourses(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const unlinked = await prisma.project.findMany({
+    where: {
+      id: { in: ids },
+      course_id: null,
+      origin: { path: ["is_course"], equals: true },
+    },
+    select: { id: true, origin: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  for (const project of unlinked) {
+    await linkProjectCourse(project.id, project.origin);
+  }
+  if (unlinked.length > 0) {
+    console.log(
+      `[DB]    ++ COURSES       :: linked: ${unlinked.length} (unchanged projects)`
+    );
+  }
+}
 
 // =====================================================================
 // [SECTION] :: MAIN EXECUTION
@@ -46,7 +128,9 @@ async function main() {
   const strictMode = process.env.NUXT_STRICT_MODE !== "false";
 
   console.log(
-    `[CONF]  >> MODE          :: ${strictMode ? "STRICT" : "LENIENT"}`
+    `[CONF]  >> MODE          :: ${strictMode ? "STRICT" : "LENIENT"}${
+      FORCE ? " | FORCE" : ""
+    }`
   );
   console.log(
     `[WARN]  >> SYNC_INFO     :: El webhook usará este mismo modo (NUXT_STRICT_MODE=${strictMode})`
@@ -57,66 +141,81 @@ async function main() {
 
   try {
     // [STEP 1] :: FETCH_REPOS
-    const { data: repos } = await OCTOKIT.request(
-      "GET /users/{username}/repos",
-      {
-        username: USERNAME,
-        type: "owner",
-        sort: "updated",
-        direction: "desc",
-        per_page: DEFAULT_PER_PAGE,
-      }
+    // En modo App: todos los repos de la instalación (los privados se descartan)
+    const octokit = await getOctokitForOwner(USERNAME);
+    console.log(
+      `[CONF]  >> AUTH          :: ${APP_MODE ? "GITHUB_APP" : "PAT"}`
     );
 
-    const sources = repos.filter((r) => !r.fork && !r.archived);
+    const repos = APP_MODE
+      ? await listInstallationRepos(octokit)
+      : (
+          await octokit.request("GET /users/{username}/repos", {
+            username: USERNAME,
+            type: "owner",
+            sort: "updated",
+            direction: "desc",
+            per_page: DEFAULT_PER_PAGE,
+          })
+        ).data;
+
+    const sources = repos.filter((r) => !r.fork && !r.archived && !r.private);
 
     console.log(
-      `[REPO]  >> DISCOVERED    :: count: ${repos.length} | filtered: ${sources.length} (non-forks)`
+      `[REPO]  >> DISCOVERED    :: count: ${repos.length} | filtered: ${sources.length} (public non-forks)`
     );
 
-    const projects: Project[] = [];
+    const saved: IngestResult[] = [];
+    const unchangedIds: string[] = [];
+    const deleteIds: string[] = [];
 
     // [STEP 2] :: PROCESS_SEQUENCE
     for (const repo of sources) {
       const result = await ingestProject(
         USERNAME,
         repo.name,
-        OCTOKIT,
+        octokit,
         DEFAULT_BRANCH,
-        strictMode
+        strictMode,
+        FORCE
       );
+      await recordIngestRun("seed", USERNAME, repo.name, result);
 
       if (result.action === "save" && result.project) {
-        projects.push(result.project);
+        saved.push(result);
+      } else if (result.action === "unchanged") {
+        unchangedIds.push(result.projectId);
+      } else if (result.action === "delete") {
+        deleteIds.push(result.projectId);
       }
+      // 'skip' (sin README, fallo transitorio...) conserva la fila tal cual
     }
 
     // [STEP 3] :: PERSIST_DATA
-    console.log(`\n[DB]    >> CLEANING      :: Removing existing projects...`);
-    await prisma.project.deleteMany({});
-
-    console.log(`[DB]    >> BATCH_SAVE    :: count: ${projects.length}`);
-
-    const projectsToInsert = projects.map((p) => ({
-      id: p.id,
-      title: p.title,
-      tagline: p.tagline as any,
-      description: p.description as any,
-      tech_stack: p.tech_stack,
-      primary_tech: p.primary_tech,
-      img_url: p.img_url,
-      repo_url: p.repo_url,
-      demo_url: p.demo_url,
-      origin: p.origin as any,
-    }));
-
-    await prisma.project.createMany({
-      data: projectsToInsert,
-      skipDuplicates: true,
-    });
+    const keepIds = [
+      ...unchangedIds,
+      ...saved.map((result) => result.project!.id),
+    ];
+
+    console.log(
+      `[DB]    >> BATCH_SAVE    :: count: ${saved.length} | unchanged: ${unchangedIds.length}`
+    );
+
+    for (const result of saved) {
+      await saveProject(result.project!, result.fingerprint);
+    }
+    await linkUnchangedCourses(unchangedIds);
+
+    // [STEP 4] :: PRUNE
+    // Solo se borra lo marcado como 'delete' y los repos del usuario que ya
+    // no aparecen en el listado; lo curado a mano nunca
+    const missingIds = await findMissingProjects(
+      sources.map((repo) => repo.name)
+    );
+    await pruneProjects([...new Set([...deleteIds, ...missingIds])]);
 
     console.log(`\n[DONE]  :: SEED_COMPLETE :: DB sync finished.`);
-    if (projects.length === 0) {
+    if (keepIds.length === 0) {
       console.warn(
         `[WARN]  :: NO_PROJECTS   :: No projects found or processed.`
       );
@@ -10,20 +10,19 @@
  */
 
 import "dotenv/config";
-import { Octokit } from "octokit";
 import { ingestProject, saveProject } from "../server/utils/ingest";
 import { prisma } from "../server/utils/prisma";
+import { recordIngestRun } from "../server/utils/runs";
+import { getOctokitForOwner } from "../server/utils/github";
 import * as readline from "readline";
 
 // =====================================================================
 // [SECTION] :: CONFIGURATION
 // =====================================================================
 
-const GITHUB_TOKEN = process.env.GITHUB_SEED_TOKEN;
-const OCTOKIT = new Octokit({ auth: GITHUB_TOKEN });
-
 const DEFAULT_BRANCH = "main";
 const GITHUB_DOMAIN = "github.com";
+const FLAG_FORCE = "--force"; // Re-extrae aunque el README no haya cambiado
 
 // =====================================================================
 // [SECTION] :: UTILITIES
@@ -54,11 +53,13 @@ async function askQuestion(query: string): Promise<string> {
 // =====================================================================
 
 async function main() {
-  const repoUrl = process.argv[2];
+  const args = process.argv.slice(2);
+  const repoUrl = args.find((arg) => !arg.startsWith("--"));
+  const force = args.includes(FLAG_FORCE);
 
   if (!repoUrl) {
     console.error(
-      "Usage: npx tsx seed/seed-single-database.ts <github-repo-url>"
+      "Usage: npx tsx seed/seed-single-database.ts <github-repo-url> [--force]"
     );
     process.exit(1);
   }
@@ -103,13 +104,23 @@ async function main() {
     }
 
     // [STEP 2] :: TRIGGER_INGESTION
+    const octokit = await getOctokitForOwner(owner);
     const result = await ingestProject(
       owner,
       repo,
-      OCTOKIT,
+      octokit,
       DEFAULT_BRANCH,
-      strictMode
+      strictMode,
+      force
     );
+    await recordIngestRun("manual", owner, repo, result);
+
+    if (result.action === "unchanged") {
+      console.log(
+        `\n[DONE]  :: UNCHANGED     :: Nothing to update (use ${FLAG_FORCE} to re-extract).`
+      );
+      return;
+    }
 
     if (result.action !== "save" || !result.project) {
       console.error(
@@ -121,7 +132,7 @@ async function main() {
     }
 
     // [STEP 3] :: PERSIST_DATA
-    await saveProject(result.project);
+    await saveProject(result.project, result.fingerprint);
 
     console.log(`\n[DONE]  :: SEED_COMPLETE :: Project saved successfully.`);
   } catch (err) {
@@ -0,0 +1,23 @@
+/**
+ * [API] :: ADMIN_CLEAR_CACHE
+ * ----------------------------------------------------------------------
+ * Invalida todas las cachés de proyectos (listado, detalle, techs).
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../utils/auth";
+import { invalidateAllProjectCaches } from "../../../utils/cache";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const deleted = await invalidateAllProjectCaches();
+  return { deleted };
+});
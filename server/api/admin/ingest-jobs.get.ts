@@ -0,0 +1,54 @@
+/**
+ * [API] :: GET_INGEST_JOBS
+ * ----------------------------------------------------------------------
+ * Endpoint autenticado para inspeccionar la cola de ingestas.
+ * Con ?status=dead lista la dead-letter queue.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "../../utils/prisma";
+import { requireAdminToken } from "../../utils/auth";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const query = getQuery(event);
+  const limit = Math.min(
+    query.limit
+      ? parseInt(query.limit as string) || DEFAULT_LIMIT
+      : DEFAULT_LIMIT,
+    MAX_LIMIT
+  );
+
+  const whereClause: any = {};
+  if (query.status) whereClause.status = query.status;
+  if (query.repo)
+    whereClause.repo = { equals: query.repo, mode: "insensitive" };
+
+  try {
+    return await prisma.ingestJob.findMany({
+      where: whereClause,
+      take: limit,
+      orderBy: { updatedAt: "desc" },
+    });
+  } catch (error: any) {
+    console.error("[API] :: admin/ingest-jobs :: Error fetching jobs", error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
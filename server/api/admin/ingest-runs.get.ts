@@ -0,0 +1,69 @@
+/**
+ * [API] :: GET_INGEST_RUNS
+ * ----------------------------------------------------------------------
+ * Endpoint autenticado para consultar el historial de ingestas.
+ * Responde a "¿por qué desapareció mi proyecto?" sin revisar logs.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "../../utils/prisma";
+import { requireAdminToken } from "../../utils/auth";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const query = getQuery(event);
+  const limit = Math.min(
+    query.limit
+      ? parseInt(query.limit as string) || DEFAULT_LIMIT
+      : DEFAULT_LIMIT,
+    MAX_LIMIT
+  );
+
+  const whereClause: any = {};
+  if (query.repo)
+    whereClause.repo = { equals: query.repo, mode: "insensitive" };
+  if (query.source) whereClause.source = query.source;
+  if (query.action) whereClause.action = query.action;
+  if (query.project_id) whereClause.project_id = query.project_id;
+
+  if (query.since) {
+    const since = new Date(query.since as string);
+    if (isNaN(since.getTime())) {
+      throw createError({
+        statusCode: HTTP_BAD_REQUEST,
+        statusMessage: "Bad Request",
+        message: "Invalid 'since' date",
+      });
+    }
+    whereClause.createdAt = { gte: since };
+  }
+
+  try {
+    return await prisma.ingestRun.findMany({
+      where: whereClause,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+    });
+  } catch (error: any) {
+    console.error("[API] :: admin/ingest-runs :: Error fetching runs", error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
@@ -0,0 +1,61 @@
+/**
+ * [API] :: ADMIN_DELETE_PROJECT
+ * ----------------------------------------------------------------------
+ * Borra un proyecto del escaparate. Si el repo sigue público, un push
+ * posterior lo volverá a ingerir (para ocultarlo de forma permanente,
+ * usar el marcador <!-- tinyshow:hidden --> o el manifest).
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../utils/auth";
+import { invalidateAllProjectCaches } from "../../../utils/cache";
+import { deleteProject } from "../../../utils/ingest";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  if (!id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID",
+    });
+  }
+
+  let deleted = false;
+  try {
+    deleted = await deleteProject(id);
+  } catch (error: any) {
+    console.error(`[API] :: admin/projects/${id} :: Error deleting`, error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+
+  if (!deleted) {
+    throw createError({
+      statusCode: HTTP_NOT_FOUND,
+      statusMessage: "Not Found",
+      message: `Project with ID '${id}' not found`,
+    });
+  }
+
+  await invalidateAllProjectCaches();
+  return { id, deleted };
+});
@@ -0,0 +1,71 @@
+/**
+ * [API] :: ADMIN_UPDATE_PROJECT
+ * ----------------------------------------------------------------------
+ * Edición parcial validada por ProjectSchema. Los campos editados se
+ * bloquean para que la siguiente ingesta no los sobrescriba; enviar
+ * `locked_fields` sustituye los bloqueos (ej: [] para liberar todo).
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../utils/auth";
+import { invalidateAllProjectCaches } from "../../../utils/cache";
+import { ProjectPatchSchema, updateProject } from "../../../utils/projects";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+const PRISMA_NOT_FOUND = "P2025";
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  if (!id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID",
+    });
+  }
+
+  const parsed = ProjectPatchSchema.safeParse(await readBody(event));
+  if (!parsed.success) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Invalid project patch",
+      data: parsed.error.issues,
+    });
+  }
+
+  try {
+    const project = await updateProject(id, parsed.data);
+    await invalidateAllProjectCaches();
+    return project;
+  } catch (error: any) {
+    if (error.code === PRISMA_NOT_FOUND) {
+      throw createError({
+        statusCode: HTTP_NOT_FOUND,
+        statusMessage: "Not Found",
+        message: `Project with ID '${id}' not found`,
+      });
+    }
+
+    console.error(`[API] :: admin/projects/${id} :: Error updating`, error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
@@ -0,0 +1,60 @@
+/**
+ * [API] :: ADMIN_DISCARD_DRAFT
+ * ----------------------------------------------------------------------
+ * Rechaza el borrador pendiente de un proyecto publicado. La versión
+ * pública no cambia; la próxima ingesta con cambios creará otro.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../../utils/auth";
+import { discardDraft } from "../../../../utils/review";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+const PRISMA_NOT_FOUND = "P2025";
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  if (!id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID",
+    });
+  }
+
+  try {
+    return await discardDraft(id);
+  } catch (error: any) {
+    if (error.code === PRISMA_NOT_FOUND) {
+      throw createError({
+        statusCode: HTTP_NOT_FOUND,
+        statusMessage: "Not Found",
+        message: `Project with ID '${id}' not found`,
+      });
+    }
+
+    console.error(
+      `[API] :: admin/projects/${id} :: Error discarding draft`,
+      error
+    );
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
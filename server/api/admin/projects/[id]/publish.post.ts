@@ -0,0 +1,64 @@
+/**
+ * [API] :: ADMIN_PUBLISH_PROJECT
+ * ----------------------------------------------------------------------
+ * Aprueba un proyecto de la cola de revisión: aplica el borrador
+ * pendiente (si lo hay, respetando los campos bloqueados) y lo marca
+ * como 'published'. También sirve para volver a mostrar uno oculto.
+ * El origin aplicado se vuelve a enlazar con su curso.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../../utils/auth";
+import { invalidateAllProjectCaches } from "../../../../utils/cache";
+import { linkProjectCourse } from "../../../../utils/courses";
+import { publishProject } from "../../../../utils/review";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+const PRISMA_NOT_FOUND = "P2025";
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  if (!id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID",
+    });
+  }
+
+  try {
+    const project = await publishProject(id);
+    await linkProjectCourse(id, project.origin);
+    await invalidateAllProjectCaches();
+    return project;
+  } catch (error: any) {
+    if (error.code === PRISMA_NOT_FOUND) {
+      throw createError({
+        statusCode: HTTP_NOT_FOUND,
+        statusMessage: "Not Found",
+        message: `Project with ID '${id}' not found`,
+      });
+    }
+
+    console.error(`[API] :: admin/projects/${id} :: Error publishing`, error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
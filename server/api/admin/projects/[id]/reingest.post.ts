@@ -0,0 +1,67 @@
+/**
+ * [API] :: ADMIN_REINGEST_PROJECT
+ * ----------------------------------------------------------------------
+ * Encola una re-ingesta forzada del repo del proyecto (re-extrae aunque
+ * el README no cambie; los campos bloqueados se respetan). Responde 202;
+ * el worker guarda el resultado e invalida las cachés.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "../../../../utils/prisma";
+import { requireAdminToken } from "../../../../utils/auth";
+import { drainIngestQueue } from "../../../../utils/queue";
+import { parseRepoUrl, reingestRepo } from "../../../../utils/projects";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const HTTP_ACCEPTED = 202;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_UNPROCESSABLE = 422;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  if (!id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID",
+    });
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id },
+    select: { repo_url: true },
+  });
+  if (!project) {
+    throw createError({
+      statusCode: HTTP_NOT_FOUND,
+      statusMessage: "Not Found",
+      message: `Project with ID '${id}' not found`,
+    });
+  }
+
+  const ref = parseRepoUrl(project.repo_url);
+  if (!ref) {
+    throw createError({
+      statusCode: HTTP_UNPROCESSABLE,
+      statusMessage: "Unprocessable Entity",
+      message: `Cannot parse a GitHub repo from '${project.repo_url}'`,
+    });
+  }
+
+  const { jobId, deduplicated } = await reingestRepo(ref);
+  event.waitUntil(drainIngestQueue());
+
+  setResponseStatus(event, HTTP_ACCEPTED);
+  return { id, repo: `${ref.owner}/${ref.repo}`, jobId, deduplicated };
+});
@@ -0,0 +1,93 @@
+/**
+ * [API] :: ADMIN_ROLLBACK_REVISION
+ * ----------------------------------------------------------------------
+ * Restaura el contenido de una revisión sin re-extraer. Body opcional:
+ * `{ fields?: LockableField[], lock?: boolean }` para restaurar solo
+ * algunos campos; lo restaurado se bloquea salvo `lock: false`.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { z } from "zod";
+import { requireAdminToken } from "../../../../../../utils/auth";
+import { invalidateAllProjectCaches } from "../../../../../../utils/cache";
+import { linkProjectCourse } from "../../../../../../utils/courses";
+import { rollbackToRevision } from "../../../../../../utils/revisions";
+import { LockableFieldSchema } from "../../../../../../../shared/types";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+const PARAM_REVISION_ID = "revisionId";
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+const PRISMA_NOT_FOUND = "P2025";
+
+const RollbackBodySchema = z
+  .object({
+    fields: z.array(LockableFieldSchema).optional(),
+    lock: z.boolean().optional(),
+  })
+  .strict();
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  const revisionId = getRouterParam(event, PARAM_REVISION_ID);
+  if (!id || !revisionId) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project or revision ID",
+    });
+  }
+
+  const parsed = RollbackBodySchema.safeParse((await readBody(event)) ?? {});
+  if (!parsed.success) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Invalid rollback options",
+      data: parsed.error.issues,
+    });
+  }
+
+  try {
+    const project = await rollbackToRevision(id, revisionId, parsed.data);
+    if (!project) {
+      throw createError({
+        statusCode: HTTP_NOT_FOUND,
+        statusMessage: "Not Found",
+        message: `Revision '${revisionId}' not found for project '${id}'`,
+      });
+    }
+
+    await linkProjectCourse(id, project.origin);
+    await invalidateAllProjectCaches();
+    return project;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    if (error.code === PRISMA_NOT_FOUND) {
+      throw createError({
+        statusCode: HTTP_NOT_FOUND,
+        statusMessage: "Not Found",
+        message: `Project with ID '${id}' not found`,
+      });
+    }
+
+    console.error(`[API] :: admin/projects/${id} :: Error rolling back`, error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
@@ -0,0 +1,54 @@
+/**
+ * [API] :: ADMIN_DIFF_REVISIONS
+ * ----------------------------------------------------------------------
+ * Diff campo a campo entre dos revisiones de un proyecto:
+ * `?from=<revisionId>&to=<revisionId|current>` (`to` por defecto es la
+ * versión guardada actualmente).
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../../../utils/auth";
+import {
+  CURRENT_REVISION,
+  diffRevisions,
+} from "../../../../../utils/revisions";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  const query = getQuery(event);
+  const from = query.from as string | undefined;
+  const to = (query.to as string | undefined) || CURRENT_REVISION;
+
+  if (!id || !from) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID or 'from' revision",
+    });
+  }
+
+  const changes = await diffRevisions(id, from, to);
+  if (!changes) {
+    throw createError({
+      statusCode: HTTP_NOT_FOUND,
+      statusMessage: "Not Found",
+      message: `Revision '${from}' or '${to}' not found for project '${id}'`,
+    });
+  }
+
+  return { from, to, changes };
+});
@@ -0,0 +1,48 @@
+/**
+ * [API] :: ADMIN_LIST_REVISIONS
+ * ----------------------------------------------------------------------
+ * Historial de revisiones de un proyecto (más reciente primero): campos
+ * cambiados, origen, commit y modelo. El historial sobrevive al borrado
+ * del proyecto, así que un ID sin proyecto no es un 404.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../../../utils/auth";
+import { listRevisions } from "../../../../../utils/revisions";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_ID = "id";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const HTTP_BAD_REQUEST = 400;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const id = getRouterParam(event, PARAM_ID);
+  if (!id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Missing project ID",
+    });
+  }
+
+  const query = getQuery(event);
+  const limit = Math.min(
+    query.limit
+      ? parseInt(query.limit as string) || DEFAULT_LIMIT
+      : DEFAULT_LIMIT,
+    MAX_LIMIT
+  );
+
+  return listRevisions(id, limit);
+});
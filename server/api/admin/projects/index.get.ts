@@ -0,0 +1,113 @@
+/**
+ * [API] :: ADMIN_LIST_PROJECTS
+ * ----------------------------------------------------------------------
+ * Listado autenticado de proyectos con sus metadatos de ingesta
+ * (campos bloqueados, hash de contenido, versión del extractor), la
+ * última ingesta registrada (`last_run`), el trabajo en cola (`job`) y
+ * el diff del borrador pendiente (`draft_changes`). Incluye todos los
+ * estados (`?status=draft` para la cola de revisión). Sin caché:
+ * refleja el estado real de la base de datos.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../../utils/prisma";
+import { requireAdminToken } from "../../../utils/auth";
+import { diffProject, type ProjectContent } from "../../../utils/content";
+import { ProjectStatusSchema } from "../../../../shared/types";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const ACTIVE_JOB_STATUSES = ["pending", "running"];
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const query = getQuery(event);
+  const limit = Math.min(
+    query.limit
+      ? parseInt(query.limit as string) || DEFAULT_LIMIT
+      : DEFAULT_LIMIT,
+    MAX_LIMIT
+  );
+
+  const whereClause: any = {};
+  if (query.primary_tech)
+    whereClause.primary_tech = {
+      equals: query.primary_tech,
+      mode: "insensitive",
+    };
+  if (query.locked === "true") whereClause.locked_fields = { isEmpty: false };
+  if (query.status) {
+    const status = ProjectStatusSchema.safeParse(query.status);
+    if (!status.success) {
+      throw createError({
+        statusCode: HTTP_BAD_REQUEST,
+        statusMessage: "Bad Request",
+        message: `Invalid status '${query.status}'`,
+      });
+    }
+    whereClause.status = status.data;
+  }
+  if (query.has_draft === "true") whereClause.draft = { not: Prisma.DbNull };
+
+  try {
+    const projects = await prisma.project.findMany({
+      where: whereClause,
+      take: limit,
+      orderBy: { updatedAt: "desc" },
+    });
+
+    const ids: string[] = [];
+    for (const project of projects) ids.push(project.id);
+
+    // Última ingesta por proyecto
+    const runs = await prisma.ingestRun.findMany({
+      where: { project_id: { in: ids } },
+      orderBy: { createdAt: "desc" },
+      distinct: ["project_id"],
+    });
+    const lastRuns = new Map<string, unknown>();
+    for (const run of runs) {
+      if (run.project_id) lastRuns.set(run.project_id, run);
+    }
+
+    // Trabajos pendientes o en curso (project ID = nombre del repo)
+    const jobs = await prisma.ingestJob.findMany({
+      where: { status: { in: ACTIVE_JOB_STATUSES } },
+    });
+    const activeJobs = new Map<string, unknown>();
+    for (const job of jobs) activeJobs.set(job.repo.toLowerCase(), job);
+
+    const result = [];
+    for (const project of projects) {
+      result.push({
+        ...project,
+        last_run: lastRuns.get(project.id) ?? null,
+        job: activeJobs.get(project.id.toLowerCase()) ?? null,
+        draft_changes: project.draft
+          ? diffProject(project, project.draft as ProjectContent)
+          : [],
+      });
+    }
+    return result;
+  } catch (error: any) {
+    console.error("[API] :: admin/projects :: Error fetching projects", error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
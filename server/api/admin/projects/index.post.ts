@@ -0,0 +1,62 @@
+/**
+ * [API] :: ADMIN_CREATE_PROJECT
+ * ----------------------------------------------------------------------
+ * Alta manual de un proyecto validada por ProjectSchema. Por defecto
+ * todos sus campos quedan bloqueados frente a la ingesta.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireAdminToken } from "../../../utils/auth";
+import { invalidateAllProjectCaches } from "../../../utils/cache";
+import { createProject, ProjectCreateSchema } from "../../../utils/projects";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const HTTP_CREATED = 201;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_CONFLICT = 409;
+const HTTP_INTERNAL_ERROR = 500;
+
+const PRISMA_UNIQUE_VIOLATION = "P2002";
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const parsed = ProjectCreateSchema.safeParse(await readBody(event));
+  if (!parsed.success) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Invalid project",
+      data: parsed.error.issues,
+    });
+  }
+
+  try {
+    const project = await createProject(parsed.data);
+    await invalidateAllProjectCaches();
+
+    setResponseStatus(event, HTTP_CREATED);
+    return project;
+  } catch (error: any) {
+    if (error.code === PRISMA_UNIQUE_VIOLATION) {
+      throw createError({
+        statusCode: HTTP_CONFLICT,
+        statusMessage: "Conflict",
+        message: `Project with ID '${parsed.data.id}' already exists`,
+      });
+    }
+
+    console.error("[API] :: admin/projects :: Error creating project", error);
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
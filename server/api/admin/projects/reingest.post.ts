@@ -0,0 +1,96 @@
+/**
+ * [API] :: ADMIN_BULK_REINGEST
+ * ----------------------------------------------------------------------
+ * Re-ingesta forzada en bloque. Body:
+ *   { ids?: string[], repos?: string[] }   ("owner/repo" o URL)
+ * Sin `ids` ni `repos` re-ingiere todos los proyectos guardados.
+ * `repos` permite incorporar repos que aún no están en la base de datos.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { z } from "zod";
+import { prisma } from "../../../utils/prisma";
+import { requireAdminToken } from "../../../utils/auth";
+import { drainIngestQueue } from "../../../utils/queue";
+import {
+  parseRepoUrl,
+  reingestRepo,
+  type RepoRef,
+} from "../../../utils/projects";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const BulkReingestSchema = z
+  .object({
+    ids: z.array(z.string()).optional(),
+    repos: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const HTTP_ACCEPTED = 202;
+const HTTP_BAD_REQUEST = 400;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const parsed = BulkReingestSchema.safeParse((await readBody(event)) ?? {});
+  if (!parsed.success) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Bad Request",
+      message: "Invalid bulk re-ingest request",
+      data: parsed.error.issues,
+    });
+  }
+
+  const { ids, repos = [] } = parsed.data;
+  const all = !ids && repos.length === 0;
+
+  // Proyectos guardados (todos o los pedidos) -> repo_url
+  const projects =
+    all || ids?.length
+      ? await prisma.project.findMany({
+          where: all ? {} : { id: { in: ids } },
+          select: { id: true, repo_url: true },
+        })
+      : [];
+
+  const targets: RepoRef[] = [];
+  const skipped: { target: string; reason: string }[] = [];
+
+  const found = new Set<string>();
+  for (const project of projects) {
+    found.add(project.id);
+    const ref = parseRepoUrl(project.repo_url);
+    if (ref) targets.push(ref);
+    else skipped.push({ target: project.id, reason: "Unparseable repo_url" });
+  }
+  for (const id of ids ?? []) {
+    if (!found.has(id))
+      skipped.push({ target: id, reason: "Project not found" });
+  }
+  for (const repo of repos) {
+    const ref = parseRepoUrl(repo);
+    if (ref) targets.push(ref);
+    else skipped.push({ target: repo, reason: "Unparseable repo" });
+  }
+
+  const jobs = [];
+  for (const ref of targets) {
+    const { jobId, deduplicated } = await reingestRepo(ref);
+    jobs.push({ repo: `${ref.owner}/${ref.repo}`, jobId, deduplicated });
+  }
+  if (jobs.length > 0) event.waitUntil(drainIngestQueue());
+
+  console.log(
+    `[API]   :: BULK_REINGEST :: queued: ${jobs.length} | skipped: ${skipped.length}`
+  );
+
+  setResponseStatus(event, HTTP_ACCEPTED);
+  return { queued: jobs.length, jobs, skipped };
+});
@@ -0,0 +1,20 @@
+/**
+ * [API] :: ADMIN_LOGOUT
+ * ----------------------------------------------------------------------
+ * Cierra la sesión del panel /admin.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { endAdminSession } from "../../../utils/auth";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+export default defineEventHandler((event) => {
+  endAdminSession(event);
+  return { authenticated: false };
+});
@@ -0,0 +1,20 @@
+/**
+ * [API] :: ADMIN_SESSION_STATUS
+ * ----------------------------------------------------------------------
+ * Indica si la petición trae una sesión de admin válida. No exige
+ * autenticación: el panel /admin lo usa para decidir si pide login.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { hasAdminSession } from "../../../utils/auth";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+export default defineEventHandler((event) => {
+  return { authenticated: hasAdminSession(event) };
+});
@@ -0,0 +1,22 @@
+/**
+ * [API] :: ADMIN_LOGIN
+ * ----------------------------------------------------------------------
+ * Login del panel /admin: canjea NUXT_ADMIN_TOKEN por una cookie de
+ * sesión httpOnly. Body: { token: string }.
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { startAdminSession } from "../../../utils/auth";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody<{ token?: string }>(event);
+  startAdminSession(event, String(body?.token ?? ""));
+  return { authenticated: true };
+});
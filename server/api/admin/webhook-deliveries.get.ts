@@ -0,0 +1,58 @@
+/**
+ * [API] :: GET_WEBHOOK_DELIVERIES
+ * ----------------------------------------------------------------------
+ * Endpoint autenticado con las últimas entregas de GitHub y lo que
+ * TinyShow hizo con cada una (incluidas las re-entregas ignoradas).
+ *
+ * @module    server/api/admin
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "../../utils/prisma";
+import { requireAdminToken } from "../../utils/auth";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  const query = getQuery(event);
+  const limit = Math.min(
+    query.limit
+      ? parseInt(query.limit as string) || DEFAULT_LIMIT
+      : DEFAULT_LIMIT,
+    MAX_LIMIT
+  );
+
+  const whereClause: any = {};
+  if (query.event) whereClause.event = query.event;
+  if (query.status) whereClause.status = query.status;
+  if (query.repo)
+    whereClause.repo = { equals: query.repo, mode: "insensitive" };
+
+  try {
+    return await prisma.webhookDelivery.findMany({
+      where: whereClause,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+    });
+  } catch (error: any) {
+    console.error(
+      "[API] :: admin/webhook-deliveries :: Error fetching deliveries",
+      error
+    );
+    throw createError({
+      statusCode: HTTP_INTERNAL_ERROR,
+      statusMessage: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
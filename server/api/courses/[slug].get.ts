@@ -0,0 +1,69 @@
+/**
+ * [API] :: GET_COURSE_DETAILS
+ * ----------------------------------------------------------------------
+ * Un curso por slug, con su autor y sus proyectos publicados en el
+ * orden en que se hicieron.
+ *
+ * @module    server/api/courses
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { getCourse } from "../../utils/courses";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const PARAM_SLUG = "slug";
+const CACHE_MAX_AGE = 60 * 60; // 1 hora
+const NO_CACHE = 0;
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineCachedEventHandler(
+  async (event) => {
+    const slug = getRouterParam(event, PARAM_SLUG);
+
+    if (!slug) {
+      throw createError({
+        statusCode: HTTP_BAD_REQUEST,
+        statusMessage: "Bad Request",
+        message: "Missing course slug",
+      });
+    }
+
+    try {
+      // Un curso sin proyectos publicados responde 404 igual que uno inexistente
+      const course = await getCourse(slug);
+
+      if (!course) {
+        throw createError({
+          statusCode: HTTP_NOT_FOUND,
+          statusMessage: "Not Found",
+          message: `Course '${slug}' not found`,
+        });
+      }
+
+      return course;
+    } catch (error: any) {
+      // Si ya es un error H3, relanzarlo
+      if (error.statusCode) throw error;
+
+      console.error(`[API] :: courses/${slug} :: Error fetching course`, error);
+      throw createError({
+        statusCode: HTTP_INTERNAL_ERROR,
+        statusMessage: "Internal Server Error",
+        message: error.message,
+      });
+    }
+  },
+  {
+    maxAge: import.meta.dev ? NO_CACHE : CACHE_MAX_AGE,
+    swr: !import.meta.dev,
+    name: "course-detail",
+    getKey: (event) => `course:${getRouterParam(event, PARAM_SLUG)}`,
+  }
+);
@@ -0,0 +1,41 @@
+/**
+ * [API] :: GET_COURSES
+ * ----------------------------------------------------------------------
+ * Cursos con sus proyectos publicados, ordenados por cuándo se empezó
+ * cada uno. Alimenta la sección "camino de aprendizaje".
+ *
+ * @module    server/api/courses
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { listCourses } from "../../utils/courses";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const CACHE_MAX_AGE = 60 * 60; // 1 hora
+const NO_CACHE = 0;
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineCachedEventHandler(
+  async () => {
+    try {
+      return await listCourses();
+    } catch (error: any) {
+      console.error("[API] :: courses :: Error fetching courses", error);
+      throw createError({
+        statusCode: HTTP_INTERNAL_ERROR,
+        statusMessage: "Internal Server Error",
+        message: error.message,
+      });
+    }
+  },
+  {
+    maxAge: import.meta.dev ? NO_CACHE : CACHE_MAX_AGE,
+    swr: !import.meta.dev,
+    name: "courses-list",
+    getKey: () => "courses:all",
+  }
+);
@@ -0,0 +1,29 @@
+/**
+ * [API] :: CRON_INGEST
+ * ----------------------------------------------------------------------
+ * Drena la cola de ingestas desde un cron externo. En Vercel no hay
+ * proceso persistente ni tareas programadas de Nitro: Vercel Cron llama
+ * aquí cada minuto (ver `nitro.vercel.config.crons` en nuxt.config) con
+ * `Authorization: Bearer $CRON_SECRET`. También acepta el token de admin.
+ *
+ * @module    server/api/cron
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { requireCronSecret } from "../../utils/auth";
+import { drainIngestQueue } from "../../utils/queue";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+// Deja margen antes del límite de duración de la función serverless
+const DRAIN_BUDGET_MS = 45 * 1000;
+
+export default defineEventHandler(async (event) => {
+  requireCronSecret(event);
+
+  const processed = await drainIngestQueue(DRAIN_BUDGET_MS);
+  return { processed };
+});
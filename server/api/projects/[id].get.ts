@@ -10,6 +10,8 @@
  */
 
 import { prisma } from "../../utils/prisma";
+import { toPublicProject } from "../../utils/content";
+import { STATUS_PUBLISHED } from "../../utils/review";
 
 // =====================================================================
 // [SECTION] :: ENDPOINT HANDLER
@@ -36,8 +38,9 @@ export default defineCachedEventHandler(
     }
 
     try {
-      const project = await prisma.project.findUnique({
-        where: { id },
+      // Borradores y ocultos responden 404 igual que un ID inexistente
+      const project = await prisma.project.findFirst({
+        where: { id, status: STATUS_PUBLISHED },
       });
 
       if (!project) {
@@ -48,7 +51,8 @@ export default defineCachedEventHandler(
         });
       }
 
-      return project;
+      // Mismo formato que el listado: sin borrador ni columnas internas
+      return toPublicProject(project);
     } catch (error: any) {
       // Si ya es un error H3, relanzarlo
       if (error.statusCode) throw error;
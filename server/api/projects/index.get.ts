@@ -2,7 +2,12 @@
  * [API] :: GET_PROJECTS
  * ----------------------------------------------------------------------
  * Endpoint para listar proyectos del portfolio.
- * Soporta filtrado por tecnología principal y búsqueda simple.
+ * Filtros combinables (tecnología principal, stack, origen, autor del
+ * curso, demo/imagen, actualizados desde): ver server/utils/filters.
+ * Orden con `sort` (manual | updated | created | title); por defecto el
+ * manual: fijados primero y luego `sort_order`. Paginado por cursor:
+ * devuelve `{ projects, nextCursor, total }` y `?cursor=nextCursor` pide
+ * la página siguiente.
  *
  * @module    server/api/projects
  * @architect Samuh Lo
@@ -10,54 +15,112 @@
  */
 
 import { prisma } from "../../utils/prisma";
-import type { Project, LocalizedTextType, OriginType } from "~~/shared/types";
+import { toPublicProject } from "../../utils/content";
+import {
+  buildProjectWhere,
+  parseProjectFilters,
+  projectFiltersKey,
+} from "../../utils/filters";
+import {
+  buildCursorWhere,
+  decodeCursor,
+  encodeCursor,
+  toOrderBy,
+} from "../../utils/pagination";
+import { STATUS_PUBLISHED } from "../../utils/review";
+import {
+  ProjectSortSchema,
+  type ProjectPage,
+  type ProjectSort,
+} from "~~/shared/types";
 
 // =====================================================================
 // [SECTION] :: ENDPOINT HANDLER
 // =====================================================================
 
 const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+const DEFAULT_SORT: ProjectSort = "manual";
 const CACHE_MAX_AGE = 60 * 5; // 5 minutos (Balance entre velocidad y frescura)
 const NO_CACHE = 0;
 
+/**
+ * [UTIL] :: PARSE_LIMIT
+ * Tamaño de página entre 1 y MAX_LIMIT (también para la clave de caché).
+ */
+const parseLimit = (raw: unknown): number =>
+  Math.min(
+    Math.max(raw ? parseInt(raw as string) || DEFAULT_LIMIT : DEFAULT_LIMIT, 1),
+    MAX_LIMIT
+  );
+
 export default defineCachedEventHandler(
   async (event) => {
     const query = getQuery(event);
-    const primaryTech = query.primary_tech as string | undefined;
-    const limit = query.limit ? parseInt(query.limit as string) : DEFAULT_LIMIT;
+    const limit = parseLimit(query.limit);
 
-    try {
-      const whereClause: any = {};
-      if (primaryTech) {
-        whereClause.primary_tech = {
-          equals: primaryTech,
-          mode: "insensitive",
-        };
-      }
+    const sort = ProjectSortSchema.safeParse(query.sort || DEFAULT_SORT);
+    if (!sort.success) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: `Invalid sort '${query.sort}'`,
+      });
+    }
+
+    const filters = parseProjectFilters(query);
+    if (!filters.success) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Invalid filters",
+        data: filters.error.issues,
+      });
+    }
 
-      const projects = await prisma.project.findMany({
-        where: whereClause,
-        take: limit,
-        orderBy: {
-          updatedAt: "desc",
-        },
+    const cursor = query.cursor
+      ? decodeCursor(sort.data, query.cursor as string)
+      : null;
+    if (query.cursor && !cursor) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Invalid cursor (expired format or different sort)",
       });
+    }
 
-      // Castear campos JSONB a tipos adecuados para consumo frontend
-      return projects.map(
-        (project): Project => ({
-          id: project.id,
-          title: project.title,
-          primary_tech: project.primary_tech,
-          tagline: project.tagline as unknown as LocalizedTextType,
-          description: project.description as unknown as LocalizedTextType,
-          tech_stack: project.tech_stack,
-          img_url: project.img_url,
-          repo_url: project.repo_url,
-          demo_url: project.demo_url,
-          origin: project.origin as unknown as OriginType,
-        })
-      );
+    try {
+      // Solo proyectos publicados (borradores y ocultos quedan fuera)
+      const whereClause: any = {
+        status: STATUS_PUBLISHED,
+        ...buildProjectWhere(filters.data),
+      };
+      const pageWhere: any = cursor
+        ? { AND: [whereClause, buildCursorWhere(sort.data, cursor)] }
+        : whereClause;
+
+      // Uno de más para saber si hay página siguiente
+      const [rows, total] = await Promise.all([
+        prisma.project.findMany({
+          where: pageWhere,
+          take: limit + 1,
+          orderBy: toOrderBy(sort.data),
+        }),
+        prisma.project.count({ where: whereClause }),
+      ]);
+
+      const hasMore = rows.length > limit;
+      const page = hasMore ? rows.slice(0, limit) : rows;
+      const last = page[page.length - 1];
+
+      const response: ProjectPage = {
+        // Castear campos JSONB a tipos adecuados para consumo frontend
+        // Idiomas ausentes en filas antiguas caen al idioma por defecto
+        projects: page.map((project) => toPublicProject(project)),
+        nextCursor: hasMore && last ? encodeCursor(sort.data, last) : null,
+        total,
+      };
+      return response;
     } catch (error: any) {
       console.error(
         "[API] :: projects/index :: Error fetching projects",
@@ -76,11 +139,18 @@ export default defineCachedEventHandler(
     name: "projects-list",
     getKey: (event) => {
       const query = getQuery(event);
-      const tech = query.primary_tech || "all";
-      const limit = query.limit || DEFAULT_LIMIT.toString();
+      // Consultas equivalentes comparten clave (los filtros inválidos
+      // responden 400 y no se cachean)
+      const parsed = parseProjectFilters(query);
+      const filters = parsed.success
+        ? projectFiltersKey(parsed.data)
+        : "invalid";
+      const limit = parseLimit(query.limit);
+      const sort = query.sort || DEFAULT_SORT;
+      const cursor = query.cursor || "first";
       // DEV: Force distinct key to prevent "ghost" cache from file system
       const suffix = import.meta.dev ? `:${Date.now()}` : "";
-      return `projects:${tech}:${limit}${suffix}`;
+      return `projects:${filters}:${limit}:${sort}:${cursor}${suffix}`;
     },
   }
 );
@@ -0,0 +1,115 @@
+/**
+ * [API] :: SEARCH_PROJECTS
+ * ----------------------------------------------------------------------
+ * Búsqueda de texto completo sobre los proyectos publicados (título,
+ * tecnologías, tagline y descripción en todos los idiomas). Devuelve
+ * los proyectos por relevancia con un fragmento resaltado por idioma.
+ *
+ * @module    server/api/projects
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { searchProjects } from "../../utils/search";
+import { ProjectSearchFiltersSchema } from "~~/shared/types";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const CACHE_MAX_AGE = 60 * 5; // 5 minutos, como el listado
+const NO_CACHE = 0;
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_INTERNAL_ERROR = 500;
+
+/**
+ * [UTIL] :: NORMALIZE_QUERY
+ * Texto de búsqueda sin espacios sobrantes (también para la clave de caché).
+ */
+const normalizeQuery = (raw: unknown): string =>
+  String(raw ?? "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_QUERY_LENGTH);
+
+/**
+ * [UTIL] :: PARSE_LIMIT
+ * Número de resultados entre 1 y MAX_LIMIT (también para la clave de caché).
+ */
+const parseLimit = (raw: unknown): number =>
+  Math.min(
+    Math.max(raw ? parseInt(raw as string) || DEFAULT_LIMIT : DEFAULT_LIMIT, 1),
+    MAX_LIMIT
+  );
+
+/**
+ * [PARSE] :: PARSE_SEARCH_FILTERS
+ * Valida los filtros del query (`?primary_tech=` vacío se ignora).
+ */
+const parseSearchFilters = (query: Record<string, unknown>) =>
+  ProjectSearchFiltersSchema.safeParse({
+    primary_tech: query.primary_tech || undefined,
+  });
+
+export default defineCachedEventHandler(
+  async (event) => {
+    const query = getQuery(event);
+    const text = normalizeQuery(query.q);
+    const limit = parseLimit(query.limit);
+
+    if (text.length < MIN_QUERY_LENGTH) {
+      throw createError({
+        statusCode: HTTP_BAD_REQUEST,
+        statusMessage: "Bad Request",
+        message: `Query 'q' must have at least ${MIN_QUERY_LENGTH} characters`,
+      });
+    }
+
+    const filters = parseSearchFilters(query);
+    if (!filters.success) {
+      throw createError({
+        statusCode: HTTP_BAD_REQUEST,
+        statusMessage: "Bad Request",
+        message: "Invalid filters",
+        data: filters.error.issues,
+      });
+    }
+
+    try {
+      return await searchProjects(text, {
+        limit,
+        primaryTech: filters.data.primary_tech,
+      });
+    } catch (error: any) {
+      console.error("[API] :: projects/search :: Error searching", error);
+      throw createError({
+        statusCode: HTTP_INTERNAL_ERROR,
+        statusMessage: "Internal Server Error",
+        message: error.message,
+      });
+    }
+  },
+  {
+    maxAge: import.meta.dev ? NO_CACHE : CACHE_MAX_AGE,
+    swr: !import.meta.dev,
+    name: "projects-search",
+    getKey: (event) => {
+      const query = getQuery(event);
+      const text = normalizeQuery(query.q).toLowerCase();
+      // Misma clave para cualquier grafía de la tecnología
+      const filters = parseSearchFilters(query);
+      const tech = filters.success
+        ? filters.data.primary_tech?.toLowerCase() || "all"
+        : "invalid";
+      const limit = parseLimit(query.limit);
+      // DEV: Force distinct key to prevent "ghost" cache from file system
+      const suffix = import.meta.dev ? `:${Date.now()}` : "";
+      return `search:${encodeURIComponent(text)}:${encodeURIComponent(tech)}:${limit}${suffix}`;
+    },
+  }
+);
@@ -1,15 +1,19 @@
 /**
  * [API] :: GET_TECHS
  * ----------------------------------------------------------------------
- * Endpoint auxiliar para obtener la lista de tecnologías principales.
- * Útil para poblar menús de filtrado en el frontend.
+ * Endpoint auxiliar para obtener la lista de tecnologías principales
+ * con su número de proyectos visibles (`{ name, count }`). Útil para
+ * poblar menús de filtrado en el frontend. Los nombres salen canónicos
+ * (ver shared/techs); con `?details=true` cada tecnología incluye
+ * además categoría, icono y color.
  *
  * @module    server/api/projects
  * @architect Samuh Lo
  * ----------------------------------------------------------------------
  */
 
-import { prisma } from "../../utils/prisma";
+import { countPrimaryTechs } from "../../utils/stats";
+import { getTechInfo } from "~~/shared/techs";
 
 // =====================================================================
 // [SECTION] :: ENDPOINT HANDLER
@@ -21,40 +25,15 @@ const HTTP_INTERNAL_ERROR = 500;
 
 export default defineCachedEventHandler(
   async (event) => {
-    try {
-      // Agrupar por primary_tech para obtener valores únicos eficientemente
-      const groups = await prisma.project.groupBy({
-        by: ["primary_tech"],
-        _count: {
-          primary_tech: true,
-        },
-        orderBy: {
-          primary_tech: "asc",
-        },
-      });
-
-      // Extraer solo las cadenas
-      const allTechs = groups.map((g) => g.primary_tech);
+    const details = getQuery(event).details === "true";
 
-      // Verificar que cada tech tenga proyectos visibles usando el mismo criterio que la lista
-      const validTechs: string[] = [];
-
-      for (const tech of allTechs) {
-        const count = await prisma.project.count({
-          where: {
-            primary_tech: {
-              equals: tech,
-              mode: "insensitive",
-            },
-          },
-        });
-
-        if (count > 0) {
-          validTechs.push(tech);
-        }
-      }
+    try {
+      // Una sola consulta: mismos proyectos visibles que el listado
+      const techs = await countPrimaryTechs();
 
-      return validTechs;
+      return details
+        ? techs.map((tech) => ({ ...getTechInfo(tech.name), ...tech }))
+        : techs;
     } catch (error: any) {
       console.error("[API] :: projects/techs :: Error fetching techs", error);
       throw createError({
@@ -68,6 +47,11 @@ export default defineCachedEventHandler(
     maxAge: import.meta.dev ? NO_CACHE : CACHE_MAX_AGE, // 1 hora en prod, 0 en dev
     swr: !import.meta.dev, // Deshabilitar SWR en dev
     name: "projects-techs",
-    getKey: () => "techs",
+    // Clave nueva para `{ name, count }`: no servir la lista de strings
+    // que siga en caché de antes
+    getKey: (event) =>
+      getQuery(event).details === "true"
+        ? "techs:counts:details"
+        : "techs:counts",
   }
 );
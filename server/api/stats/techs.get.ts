@@ -0,0 +1,43 @@
+/**
+ * [API] :: GET_TECH_STATS
+ * ----------------------------------------------------------------------
+ * Estadísticas de tecnologías del portfolio: proyectos por tecnología
+ * (principal y stack), primera y última vez que se usó, cobertura por
+ * categoría y matriz de co-ocurrencia. Alimenta la visualización de
+ * "skills" y muestra en qué stacks el portfolio va corto.
+ *
+ * @module    server/api/stats
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { getTechStats } from "../../utils/stats";
+
+// =====================================================================
+// [SECTION] :: ENDPOINT HANDLER
+// =====================================================================
+
+const CACHE_MAX_AGE = 60 * 60; // 1 hora, como la lista de tecnologías
+const NO_CACHE = 0;
+const HTTP_INTERNAL_ERROR = 500;
+
+export default defineCachedEventHandler(
+  async () => {
+    try {
+      return await getTechStats();
+    } catch (error: any) {
+      console.error("[API] :: stats/techs :: Error computing stats", error);
+      throw createError({
+        statusCode: HTTP_INTERNAL_ERROR,
+        statusMessage: "Internal Server Error",
+        message: error.message,
+      });
+    }
+  },
+  {
+    maxAge: import.meta.dev ? NO_CACHE : CACHE_MAX_AGE,
+    swr: !import.meta.dev,
+    name: "stats-techs",
+    getKey: () => "stats:techs",
+  }
+);
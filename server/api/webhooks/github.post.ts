@@ -1,40 +1,82 @@
 /**
- * [WEBHOOK] :: GITHUB_PUSH_HANDLER
+ * [WEBHOOK] :: GITHUB_EVENT_HANDLER
  * ----------------------------------------------------------------------
- * Endpoint reactivo para eventos 'push' de GitHub.
- * Valida firmas, detecta cambios en README y dispara la ingesta.
+ * Endpoint reactivo para eventos 'push', 'repository' y 'release', y
+ * para 'installation*' de la GitHub App (registro de cuentas y repos).
+ * Valida firmas, detecta cambios en README/manifest y encola la ingesta.
+ * Responde 202 al momento; el worker de la cola hace el trabajo pesado.
+ * Renombrados y bajas (borrado, archivado, privado) se aplican en línea.
+ * Idempotente por X-GitHub-Delivery: las re-entregas no re-ingieren.
  *
  * @module    server/api/webhooks
  * @architect Samuh Lo
  * ----------------------------------------------------------------------
  */
 
-import { Octokit } from "octokit";
 import crypto from "crypto";
+import type { H3Event } from "h3";
 import { invalidateAllProjectCaches } from "../../utils/cache";
+import {
+  registerInstallation,
+  removeInstallation,
+  setInstallationSuspended,
+  trackRepos,
+  untrackRepos,
+  type InstallationRepo,
+} from "../../utils/github";
+import { pruneProject, renameProject } from "../../utils/ingest";
+import { MANIFEST_FILES } from "../../utils/manifest";
+import { recordIngestRun } from "../../utils/runs";
+import {
+  claimDelivery,
+  completeDelivery,
+  failDelivery,
+} from "../../utils/deliveries";
+import {
+  cancelPendingIngestJob,
+  drainIngestQueue,
+  enqueueIngestJob,
+} from "../../utils/queue";
 
 // =====================================================================
 // [SECTION] :: CONFIGURATION
 // =====================================================================
 
 const WEBHOOK_SECRET = process.env.NUXT_GITHUB_WEBHOOK_SECRET;
-const GITHUB_TOKEN = process.env.GITHUB_SEED_TOKEN;
 
 // =====================================================================
 const METHOD_POST = "POST";
 const HEADER_SIGNATURE = "x-hub-signature-256";
 const HEADER_EVENT = "x-github-event";
+const HEADER_DELIVERY = "x-github-delivery";
 
 const EVENT_PING = "ping";
 const EVENT_PUSH = "push";
+const EVENT_REPOSITORY = "repository";
+const EVENT_RELEASE = "release";
+const EVENT_INSTALLATION = "installation";
+const EVENT_INSTALLATION_REPOS = "installation_repositories";
+
+// Acciones de 'repository' que sacan el proyecto del escaparate
+const REPO_REMOVE_ACTIONS = ["deleted", "archived", "privatized"];
+// Acciones de 'repository' que lo (re)incorporan
+const REPO_INGEST_ACTIONS = ["publicized", "unarchived"];
+const REPO_ACTION_RENAMED = "renamed";
+// Acciones de 'release' que refrescan el proyecto
+const RELEASE_REFRESH_ACTIONS = ["published", "released", "edited"];
+// Acciones de 'installation' que (re)registran la cuenta
+const INSTALL_REGISTER_ACTIONS = ["created", "new_permissions_accepted"];
 
 const HTTP_METHOD_NOT_ALLOWED = 405;
 const HTTP_UNAUTHORIZED = 401;
 const HTTP_BAD_REQUEST = 400;
+const HTTP_ACCEPTED = 202;
 
 const HASH_ALGO = "sha256";
 const REF_PREFIX = "refs/heads/";
 const README_FILE = "README.md";
+const WATCHED_FILES = [README_FILE, ...MANIFEST_FILES]; // README + manifest in-repo
+const DEFAULT_BRANCH = "main";
 
 // =====================================================================
 // [SECTION] :: EVENT HANDLER
@@ -82,92 +124,369 @@ export default defineEventHandler(async (event) => {
     return { status: "pong" };
   }
 
-  if (eventType !== EVENT_PUSH) {
-    return { status: "ignored", message: "Not a push event" };
+  // [STEP 4] :: DEDUPE_DELIVERY
+  // Sin cabecera (ej: pruebas con curl) se procesa sin registro
+  const deliveryId = getHeader(event, HEADER_DELIVERY);
+  if (!deliveryId) {
+    return dispatch(event, eventType, payload);
+  }
+
+  const claim = await claimDelivery(deliveryId, {
+    event: eventType || "unknown",
+    action: payload.action ?? null,
+    owner: payload.repository?.owner?.login ?? null,
+    repo: payload.repository?.name ?? null,
+  });
+
+  if (claim.duplicate) {
+    return {
+      status: "duplicate",
+      deliveryId,
+      deliveryStatus: claim.status,
+      outcome: claim.outcome,
+      job: claim.job,
+    };
+  }
+
+  // [STEP 5] :: DISPATCH
+  try {
+    const outcome = await dispatch(event, eventType, payload);
+    await completeDelivery(deliveryId, outcome);
+    return outcome;
+  } catch (err) {
+    await failDelivery(deliveryId, err);
+    throw err;
+  }
+});
+
+// =====================================================================
+// [SECTION] :: DISPATCH
+// =====================================================================
+
+/**
+ * [HOOK] :: DISPATCH
+ * Enruta el evento a su manejador.
+ */
+async function dispatch(
+  event: H3Event,
+  eventType: string | undefined,
+  payload: any
+) {
+  switch (eventType) {
+    case EVENT_PUSH:
+      return handlePush(event, payload);
+    case EVENT_REPOSITORY:
+      return handleRepository(event, payload);
+    case EVENT_RELEASE:
+      return handleRelease(event, payload);
+    case EVENT_INSTALLATION:
+      return handleInstallation(event, payload);
+    case EVENT_INSTALLATION_REPOS:
+      return handleInstallationRepos(event, payload);
+    default:
+      return { status: "ignored", message: `Unsupported event: ${eventType}` };
   }
+}
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [HOOK] :: REQUIRE_REPOSITORY
+ * Extrae owner/nombre del bloque 'repository' del payload.
+ *
+ * @throws {H3Error} - 400 si el payload no trae repositorio.
+ */
+function requireRepository(payload: any) {
+  const repo = payload.repository;
+  if (!repo) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Missing repository info",
+    });
+  }
+
+  return {
+    owner: repo.owner.name || repo.owner.login, // Payload de GitHub puede variar
+    name: repo.name as string,
+    url: repo.html_url as string,
+    defaultBranch: (repo.default_branch as string) || DEFAULT_BRANCH,
+  };
+}
 
-  // [STEP 4] :: DETECT_CHANGES
+/**
+ * [HOOK] :: QUEUE_INGESTION
+ * Encola la ingesta, arranca el worker y responde 202.
+ */
+async function queueIngestion(
+  event: H3Event,
+  owner: string,
+  repoName: string,
+  branch: string,
+  force = false,
+  commitSha?: string
+) {
+  // Nada de GitHub/LLM/DB de proyecto aquí: GitHub corta a los 10s
+  const { jobId, deduplicated } = await enqueueIngestJob(
+    owner,
+    repoName,
+    branch,
+    { force, commitSha }
+  );
+
+  // Arranque inmediato sin esperar a la tarea programada (waitUntil:
+  // en serverless la función sigue viva hasta terminar)
+  event.waitUntil(drainIngestQueue());
+
+  setResponseStatus(event, HTTP_ACCEPTED);
+  return {
+    status: "queued",
+    jobId,
+    deduplicated,
+  };
+}
+
+// =====================================================================
+// [SECTION] :: PUSH
+// =====================================================================
+
+/**
+ * [HOOK] :: HANDLE_PUSH
+ * Encola la ingesta si el push toca el README o el manifest.
+ */
+async function handlePush(event: H3Event, payload: any) {
   const commits = payload.commits || [];
   let readmeChanged = false;
 
   for (const commit of commits) {
-    const changes = [...commit.added, ...commit.modified];
-    if (changes.some((file: string) => file === README_FILE)) {
+    // 'removed' incluido: borrar el manifest también cambia el resultado
+    const changes = [...commit.added, ...commit.modified, ...commit.removed];
+    if (changes.some((file: string) => WATCHED_FILES.includes(file))) {
       readmeChanged = true;
       break; // Un cambio es suficiente
     }
   }
 
   if (!readmeChanged) {
-    return { status: "skipped", message: "No README changes detected" };
+    return {
+      status: "skipped",
+      message: "No README or manifest changes detected",
+    };
   }
 
-  // [STEP 5] :: TRIGGER_INGESTION
-  const repo = payload.repository;
-  if (!repo) {
-    throw createError({
-      statusCode: 400,
-      statusMessage: "Missing repository info",
+  const { owner, name } = requireRepository(payload);
+  const branch = payload.ref.replace(REF_PREFIX, "");
+
+  console.log(
+    `[HOOK]  :: TRIGGER_REC   :: source: ${owner}/${name} | branch: ${branch}`
+  );
+
+  // payload.after = commit head del push (queda en la revisión)
+  return queueIngestion(event, owner, name, branch, false, payload.after);
+}
+
+// =====================================================================
+// [SECTION] :: REPOSITORY LIFECYCLE
+// =====================================================================
+
+/**
+ * [HOOK] :: HANDLE_REPOSITORY
+ * renamed -> migra ID y repo_url; deleted/archived/privatized -> borra;
+ * publicized/unarchived -> encola ingesta.
+ */
+async function handleRepository(event: H3Event, payload: any) {
+  const action = payload.action as string;
+  const { owner, name, url, defaultBranch } = requireRepository(payload);
+
+  console.log(
+    `[HOOK]  :: REPO_EVENT    :: source: ${owner}/${name} | action: ${action}`
+  );
+
+  if (action === REPO_ACTION_RENAMED) {
+    const oldName = payload.changes?.repository?.name?.from as
+      string | undefined;
+    if (!oldName) {
+      throw createError({
+        statusCode: HTTP_BAD_REQUEST,
+        statusMessage: "Missing previous repository name",
+      });
+    }
+
+    const renamed = await renameProject(oldName, name, url);
+    if (renamed) await invalidateAllProjectCaches();
+
+    return {
+      status: renamed ? "success" : "skipped",
+      action: "renamed",
+      from: oldName,
+      projectId: name,
+    };
+  }
+
+  if (REPO_REMOVE_ACTIONS.includes(action)) {
+    const reason = `Repository ${action}`;
+    await cancelPendingIngestJob(owner, name);
+    const deleted = await pruneProject(name); // Los curados a mano se quedan
+    if (deleted) await invalidateAllProjectCaches();
+
+    // Queda en el historial para saber por qué desapareció
+    await recordIngestRun("webhook", owner, name, {
+      action: "delete",
+      project: null,
+      projectId: name,
+      reason,
     });
+
+    return {
+      status: deleted ? "success" : "skipped",
+      action: deleted ? "deleted" : "delete_not_needed",
+      projectId: name,
+      reason,
+    };
   }
 
-  const owner = repo.owner.name || repo.owner.login; // Payload de GitHub puede variar
-  const repoName = repo.name;
-  const branch = payload.ref.replace(REF_PREFIX, "");
+  if (REPO_INGEST_ACTIONS.includes(action)) {
+    return queueIngestion(event, owner, name, defaultBranch);
+  }
+
+  return {
+    status: "ignored",
+    message: `Unhandled repository action: ${action}`,
+  };
+}
+
+// =====================================================================
+// [SECTION] :: RELEASES
+// =====================================================================
+
+/**
+ * [HOOK] :: HANDLE_RELEASE
+ * Una release nueva o editada fuerza la re-extracción del proyecto
+ * (demo, imagen o stack suelen cambiar con ella).
+ */
+async function handleRelease(event: H3Event, payload: any) {
+  const action = payload.action as string;
+  if (!RELEASE_REFRESH_ACTIONS.includes(action)) {
+    return {
+      status: "ignored",
+      message: `Unhandled release action: ${action}`,
+    };
+  }
+
+  const { owner, name, defaultBranch } = requireRepository(payload);
 
   console.log(
-    `[HOOK]  :: TRIGGER_REC   :: source: ${owner}/${repoName} | branch: ${branch}`
+    `[HOOK]  :: RELEASE_REC   :: source: ${owner}/${name} | tag: ${payload.release?.tag_name}`
   );
 
-  // Instanciar Octokit
-  const octokit = new Octokit({ auth: GITHUB_TOKEN });
+  return queueIngestion(event, owner, name, defaultBranch, true);
+}
 
-  // Ingerir y obtener resultado con acción
-  const result: IngestResult = await ingestProject(
-    owner,
-    repoName,
-    octokit,
-    branch
+// =====================================================================
+// [SECTION] :: GITHUB APP INSTALLATIONS
+// =====================================================================
+
+/**
+ * [HOOK] :: QUEUE_REPOS
+ * Encola la ingesta de repos recién accesibles (sin esperar al push).
+ * Los privados se registran pero nunca llegan al escaparate público.
+ */
+async function queueRepos(
+  event: H3Event,
+  repos: InstallationRepo[]
+): Promise<number> {
+  const publicRepos = repos.filter((repo) => !repo.private);
+  for (const repo of publicRepos) {
+    const [owner = "", name = repo.name] = repo.full_name.split("/");
+    await enqueueIngestJob(owner, name, DEFAULT_BRANCH);
+  }
+  if (publicRepos.length > 0) event.waitUntil(drainIngestQueue());
+  return publicRepos.length;
+}
+
+/**
+ * [HOOK] :: HANDLE_INSTALLATION
+ * created -> registra cuenta + repos y los encola; deleted -> olvida la
+ * instalación (los proyectos se conservan); suspend/unsuspend -> marca.
+ */
+async function handleInstallation(event: H3Event, payload: any) {
+  const action = payload.action as string;
+  const installation = payload.installation;
+  if (!installation?.id) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Missing installation info",
+    });
+  }
+
+  const login = installation.account?.login as string;
+  console.log(
+    `[HOOK]  :: INSTALLATION  :: account: @${login} | action: ${action}`
   );
 
-  // [STEP 6] :: HANDLE ACTION
-  switch (result.action) {
-    case "save":
-      if (result.project) {
-        await saveProject(result.project);
-        await invalidateAllProjectCaches();
-        return {
-          status: "success",
-          action: "saved",
-          project: result.project.title,
-        };
-      }
-      return { status: "error", message: "Save action but no project data" };
-
-    case "delete":
-      const deleted = await deleteProject(result.projectId);
-      if (deleted) {
-        await invalidateAllProjectCaches();
-        return {
-          status: "success",
-          action: "deleted",
-          projectId: result.projectId,
-          reason: result.reason,
-        };
-      }
-      return {
-        status: "skipped",
-        action: "delete_not_needed",
-        projectId: result.projectId,
-        message: "Project was not in database",
-      };
+  if (INSTALL_REGISTER_ACTIONS.includes(action)) {
+    await registerInstallation({
+      installationId: installation.id,
+      login,
+      type: installation.account?.type || "User",
+      repositorySelection: installation.repository_selection,
+    });
+
+    const repos: InstallationRepo[] = payload.repositories || [];
+    await trackRepos(installation.id, repos);
+    const queued = await queueRepos(event, repos);
 
-    case "skip":
+    setResponseStatus(event, HTTP_ACCEPTED);
+    return { status: "success", action, account: login, queued };
+  }
+
+  switch (action) {
+    case "deleted":
+      await removeInstallation(installation.id);
+      return { status: "success", action, account: login };
+    case "suspend":
+    case "unsuspend":
+      await setInstallationSuspended(installation.id, action === "suspend");
+      return { status: "success", action, account: login };
     default:
       return {
-        status: "skipped",
-        projectId: result.projectId,
-        reason: result.reason || "Ingestion returned skip action",
+        status: "ignored",
+        message: `Unhandled installation action: ${action}`,
       };
   }
-});
+}
+
+/**
+ * [HOOK] :: HANDLE_INSTALLATION_REPOS
+ * Repos añadidos o retirados de una instalación con selección manual.
+ * Los añadidos se encolan; los retirados dejan de seguirse.
+ */
+async function handleInstallationRepos(event: H3Event, payload: any) {
+  const installationId = payload.installation?.id as number | undefined;
+  if (!installationId) {
+    throw createError({
+      statusCode: HTTP_BAD_REQUEST,
+      statusMessage: "Missing installation info",
+    });
+  }
+
+  const added: InstallationRepo[] = payload.repositories_added || [];
+  const removed: InstallationRepo[] = payload.repositories_removed || [];
+
+  console.log(
+    `[HOOK]  :: INSTALL_REPOS :: installation: ${installationId} | added: ${added.length} | removed: ${removed.length}`
+  );
+
+  await trackRepos(installationId, added);
+  await untrackRepos(removed.map((repo) => repo.id));
+  const queued = await queueRepos(event, added);
+
+  if (queued > 0) setResponseStatus(event, HTTP_ACCEPTED);
+  return {
+    status: "success",
+    added: added.length,
+    removed: removed.length,
+    queued,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * [ROUTE] :: GET_MEDIA
+ * ----------------------------------------------------------------------
+ * Sirve las imágenes espejadas desde el almacenamiento de media.
+ * Las claves llevan el hash del contenido: se cachean para siempre.
+ *
+ * @module    server/routes/media
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { getMediaStorage } from "../../utils/storage";
+
+// =====================================================================
+// [SECTION] :: ROUTE HANDLER
+// =====================================================================
+
+const PARAM_PATH = "path";
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+const CONTENT_TYPES: Record<string, string> = {
+  webp: "image/webp",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+};
+
+const HTTP_NOT_FOUND = 404;
+
+export default defineEventHandler(async (event) => {
+  const path = getRouterParam(event, PARAM_PATH) || "";
+
+  // Sin segmentos relativos: la clave no puede salir del almacenamiento
+  if (!path || path.split("/").some((segment) => segment === "..")) {
+    throw createError({
+      statusCode: HTTP_NOT_FOUND,
+      statusMessage: "Not Found",
+    });
+  }
+
+  const data = await getMediaStorage().getItemRaw<Buffer>(path);
+  if (!data) {
+    throw createError({
+      statusCode: HTTP_NOT_FOUND,
+      statusMessage: "Not Found",
+    });
+  }
+
+  const extension = path.split(".").pop()?.toLowerCase() || "";
+  setResponseHeader(
+    event,
+    "Content-Type",
+    CONTENT_TYPES[extension] || "application/octet-stream"
+  );
+  setResponseHeader(event, "Cache-Control", CACHE_CONTROL);
+
+  return data;
+});
@@ -0,0 +1,37 @@
+/**
+ * [TASK] :: INGEST_DRAIN
+ * ----------------------------------------------------------------------
+ * Tarea programada de Nitro que drena la cola de ingestas (cada minuto,
+ * ver `nitro.scheduledTasks` en nuxt.config). Cubre los reintentos con
+ * backoff y lo que no arrancó el empujón inmediato tras encolar.
+ * Desactivable con NUXT_INGEST_WORKER=false (ej: si otro proceso se
+ * encarga de la cola). En Vercel la dispara el cron de /api/cron/ingest.
+ *
+ * @module    server/tasks/ingest
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { drainIngestQueue } from "../../utils/queue";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const WORKER_DISABLED = "false";
+
+// =====================================================================
+// [SECTION] :: TASK
+// =====================================================================
+
+export default defineTask({
+  meta: {
+    name: "ingest:drain",
+    description: "Process ready ingest jobs from the Postgres queue",
+  },
+  async run() {
+    const disabled = process.env.NUXT_INGEST_WORKER === WORKER_DISABLED;
+    const processed = disabled ? 0 : await drainIngestQueue();
+    return { result: { processed, disabled } };
+  },
+});
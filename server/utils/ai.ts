@@ -1,16 +1,117 @@
 /**
  * [MODULE] :: AI_UTILS
  * ----------------------------------------------------------------------
- * Integración con DeepSeek para el análisis semántico de repositorios.
- * Extrae metadatos técnicos estructurados a partir de archivos README.
+ * Prompt y validación para el análisis semántico de repositorios.
+ * Extrae metadatos técnicos estructurados a partir de archivos README
+ * delegando la inferencia en el proveedor LLM configurado.
  *
  * @module    server/utils/ai
  * @architect Samuh Lo
  * ----------------------------------------------------------------------
  */
 
-import OpenAI from "openai";
 import { ProjectSchema, type Project } from "../../shared/types";
+import {
+  CONTENT_LOCALE_CODES,
+  DEFAULT_CONTENT_LOCALE,
+  LOCALE_CATALOG,
+  type ContentLocale,
+} from "../../shared/locales";
+import {
+  createExtractionProvider,
+  getExtractionConfig,
+  type ExtractionProvider,
+} from "./providers";
+import { extractProjectDataHeuristic, HEURISTIC_VERSION } from "./heuristic";
+
+// =====================================================================
+// [SECTION] :: TYPES & CONSTANTS
+// =====================================================================
+
+/**
+ * [TYPE] :: EXTRACTION_MODE
+ * - ai:               Solo LLM. Si falla, la ingesta hace skip.
+ * - heuristic:        Solo reglas sobre el README (sin tokens).
+ * - ai-with-fallback: LLM y, si falla o no hay key, reglas.
+ */
+export type ExtractionMode = "ai" | "heuristic" | "ai-with-fallback";
+
+const MODE_AI: ExtractionMode = "ai";
+const MODE_HEURISTIC: ExtractionMode = "heuristic";
+const MODE_AI_WITH_FALLBACK: ExtractionMode = "ai-with-fallback";
+const EXTRACTION_MODES = [MODE_AI, MODE_HEURISTIC, MODE_AI_WITH_FALLBACK];
+
+/**
+ * [TYPE] :: EXTRACTION_OUTCOME
+ * Project extraído junto a la versión del extractor que lo produjo.
+ */
+export type ExtractionOutcome = {
+  project: Project;
+  extractorVersion: string;
+};
+
+/** Incrementar al cambiar el system prompt (invalida hashes guardados) */
+export const PROMPT_VERSION = "prompt-v1";
+
+const DEFAULT_BRANCH = "main";
+const MAX_README_CHARS = 15000; // Límite de contexto enviado al modelo
+
+/**
+ * [CONFIG] :: GET_EXTRACTION_MODE
+ * Lee el modo desde runtime config o NUXT_EXTRACTION_MODE (default: 'ai').
+ *
+ * @returns Modo de extracción válido.
+ */
+export function getExtractionMode(): ExtractionMode {
+  let mode: string | undefined;
+
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      mode = useRuntimeConfig()?.extractionMode as string | undefined;
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+
+  mode = mode || process.env.NUXT_EXTRACTION_MODE || MODE_AI;
+
+  if (!EXTRACTION_MODES.includes(mode as ExtractionMode)) {
+    console.warn(
+      `[WARN]  :: BAD_MODE      :: '${mode}' unknown. Using '${MODE_AI}'.`
+    );
+    return MODE_AI;
+  }
+
+  return mode as ExtractionMode;
+}
+
+/**
+ * [CONFIG] :: GET_EXTRACTOR_VERSION
+ * Versión esperada del extractor para un modo (prompt + proveedor + modelo).
+ * Un cambio de versión fuerza la re-extracción aunque el README no cambie.
+ *
+ * @param mode - (Optional) Modo de extracción (default: runtime config).
+ *
+ * @returns Identificador estable, ej: 'prompt-v1|openai:deepseek-chat'.
+ */
+export function getExtractorVersion(
+  mode: ExtractionMode = getExtractionMode()
+): string {
+  if (mode === MODE_HEURISTIC) return HEURISTIC_VERSION;
+
+  const { provider, model } = getExtractionConfig();
+  return `${PROMPT_VERSION}|${provider}:${model}`;
+}
+
+/**
+ * [PROMPT] :: DESCRIBE_LOCALE_KEYS
+ * Lista de claves de idioma para el prompt: "'en' (English), 'es' (Spanish)".
+ */
+function describeLocaleKeys(codes: readonly ContentLocale[]): string {
+  return codes
+    .map((code) => `'${code}' (${LOCALE_CATALOG[code].name})`)
+    .join(", ");
+}
 
 // =====================================================================
 // [SECTION] :: DATA EXTRACTION
@@ -23,36 +124,18 @@ import { ProjectSchema, type Project } from "../../shared/types";
  *
  * @param readmeContent - El texto completo del archivo README.md.
  * @param repoUrl      - (Optional) URL del repositorio para inferir datos.
+ * @param provider     - (Optional) Backend LLM (default: runtime config).
  *
  * @returns Objeto Project validado por Zod.
- * @throws  {Error} - Si la API Key falta o la IA devuelve datos corruptos.
+ * @throws  {Error} - Si el proveedor falla o la IA devuelve datos corruptos.
  */
 export const extractProjectData = async (
   readmeContent: string,
-  repoUrl: string = ""
+  repoUrl: string = "",
+  provider: ExtractionProvider = createExtractionProvider()
 ): Promise<Project> => {
-  // Soporta tanto configuración runtime de Nuxt como process.env directo para scripts
-  const config =
-    typeof useRuntimeConfig !== "undefined"
-      ? useRuntimeConfig()
-      : { deepseekApiKey: process.env.NUXT_DEEPSEEK_API_KEY };
-  const apiKey = config.deepseekApiKey || process.env.NUXT_DEEPSEEK_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("Missing NUXT_DEEPSEEK_API_KEY");
-  }
-
-  const DEEPSEEK_BASE_URL = "https://api.deepseek.com";
-  const DEEPSEEK_MODEL = "deepseek-chat";
-  const MAX_README_CHARS = 15000;
-  const TEMPERATURE = 0.1;
-
-  const openai = new OpenAI({
-    apiKey: apiKey as string,
-    baseURL: DEEPSEEK_BASE_URL,
-  });
-
   const jsonSchema = ProjectSchema.toJSONSchema();
+  const localeKeys = describeLocaleKeys(CONTENT_LOCALE_CODES);
 
   const systemPrompt = `
 You are a high-precision technical analyst for 'The Brutalist Automaton'.
@@ -64,8 +147,8 @@ ${JSON.stringify(jsonSchema, null, 2)}
 GUIDELINES:
 1. **id**: specific slug from the repository name (e.g. 'tinyshow-v2').
 2. **title**: Clean, punchy title.
-3. **tagline**: A brutalist, very short description (max 40 chars). Object with keys: 'en', 'es'.
-4. **description**: Technical but engaging summary. Strictly keep it between 150 and 200 characters for aesthetic consistency. Object with keys: 'en', 'es'.
+3. **tagline**: A brutalist, very short description (max 40 chars). Object with keys: ${localeKeys}.
+4. **description**: Technical but engaging summary. Strictly keep it between 150 and 200 characters for aesthetic consistency. Object with keys: ${localeKeys}.
 5. **tech_stack**: Array of specific technologies mentioned (e.g. 'Nuxt 3', 'Tailwind', 'GSAP').
 6. **primary_tech**: The dominant technology. Rule: Framework > Language. NEVER include version numbers (e.g. use 'Vue' not 'Vue 3'). Examples: 'Astro', 'Nuxt', 'React'.
 7. **repo_url**: Use '${repoUrl}' if provided, otherwise infer.
@@ -80,32 +163,134 @@ CRITICAL: Return ONLY valid JSON. No Markdown code fences.
 `;
 
   try {
-    const completion = await openai.chat.completions.create({
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: `Repository URL: ${repoUrl}\n\n${readmeContent.substring(
-            0,
-            MAX_README_CHARS
-          )}`,
-        }, // Truncate to avoid context limits if huge
-      ],
-      model: DEEPSEEK_MODEL,
-      response_format: { type: "json_object" },
-      temperature: TEMPERATURE, // Low temp for precision
+    const rawData = await provider.extract({
+      systemPrompt,
+      // Truncar para evitar límites de contexto si es enorme
+      readmeContent: readmeContent.substring(0, MAX_README_CHARS),
+      repoUrl,
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) throw new Error("Empty response from DeepSeek");
-
-    // Parsear JSON
-    const rawData = JSON.parse(content);
-
     // Validar con Zod
     return ProjectSchema.parse(rawData);
   } catch (error) {
-    console.error("[ERR]   :: DEEPSEEK_FAIL ::", error);
+    console.error(
+      `[ERR]   :: LLM_FAIL      :: provider: ${provider.name} | model: ${provider.model} ::`,
+      error
+    );
     throw error;
   }
 };
+
+/**
+ * [EXTRACT] :: EXTRACT_PROJECT
+ * Punto de entrada de la ingesta. Aplica el modo de extracción configurado
+ * sin que el llamador sepa qué backend produce el Project.
+ *
+ * @param readmeContent - El texto completo del archivo README.md.
+ * @param repoUrl       - URL del repositorio.
+ * @param branch        - (Optional) Rama para resolver rutas relativas.
+ * @param mode          - (Optional) Modo explícito (default: runtime config).
+ *
+ * @returns Project validado y versión del extractor realmente usado.
+ * @throws  {Error} - Si la extracción falla y el modo no permite fallback.
+ */
+export const extractProject = async (
+  readmeContent: string,
+  repoUrl: string,
+  branch: string = DEFAULT_BRANCH,
+  mode: ExtractionMode = getExtractionMode()
+): Promise<ExtractionOutcome> => {
+  const heuristicOutcome = (): ExtractionOutcome => ({
+    project: extractProjectDataHeuristic(readmeContent, repoUrl, branch),
+    extractorVersion: HEURISTIC_VERSION,
+  });
+
+  if (mode === MODE_HEURISTIC) {
+    return heuristicOutcome();
+  }
+
+  try {
+    const provider = createExtractionProvider();
+    const project = await extractProjectData(readmeContent, repoUrl, provider);
+    return {
+      project,
+      extractorVersion: `${PROMPT_VERSION}|${provider.name}:${provider.model}`,
+    };
+  } catch (error: any) {
+    if (mode === MODE_AI) throw error;
+
+    console.warn(
+      `[WARN]  :: AI_FALLBACK   :: ${error.message} -> Using heuristic extractor`
+    );
+    // Se guarda la versión heurística: el próximo push reintentará la IA
+    return heuristicOutcome();
+  }
+};
+
+// =====================================================================
+// [SECTION] :: TRANSLATION
+// =====================================================================
+
+/**
+ * [TYPE] :: LOCALIZED_FIELDS
+ * Campos localizados de un proyecto tal y como están guardados.
+ */
+export type LocalizedFields = Record<string, Partial<Record<string, string>>>;
+
+/**
+ * [TRANSLATE] :: TRANSLATE_MISSING_LOCALES
+ * Traduce los idiomas que faltan en varios campos localizados a la vez
+ * usando como fuente el idioma por defecto. Pensado para el backfill.
+ *
+ * @param fields        - Campos localizados (ej: { tagline, description }).
+ * @param targetLocales - Idiomas a rellenar.
+ * @param provider      - (Optional) Backend LLM (default: runtime config).
+ *
+ * @returns Campos con los idiomas traducidos fusionados.
+ * @throws  {Error} - Si el proveedor falla o devuelve datos incompletos.
+ */
+export const translateMissingLocales = async (
+  fields: LocalizedFields,
+  targetLocales: readonly ContentLocale[],
+  provider: ExtractionProvider = createExtractionProvider()
+): Promise<LocalizedFields> => {
+  if (targetLocales.length === 0) return fields;
+
+  const source = Object.fromEntries(
+    Object.entries(fields).map(([key, text]) => [
+      key,
+      text[DEFAULT_CONTENT_LOCALE] || Object.values(text).find(Boolean) || "",
+    ])
+  );
+
+  const systemPrompt = `
+You are a translator for 'The Brutalist Automaton', a technical project showcase.
+Translate every value of the provided JSON object into: ${describeLocaleKeys(targetLocales)}.
+Keep technology names, product names and the brutalist, concise tone. Respect the original length.
+
+FORMAT: Strict JSON. For each input key, return an object whose keys are the target locale codes.
+Example: { "tagline": { "fr": "..." } }
+
+CRITICAL: Return ONLY valid JSON. No Markdown code fences.
+`;
+
+  const raw = (await provider.completeJson(
+    systemPrompt,
+    JSON.stringify(source)
+  )) as Record<string, Record<string, unknown>>;
+
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, text]) => {
+      const translated = raw?.[key] ?? {};
+      const merged = { ...text };
+      for (const code of targetLocales) {
+        const value = translated[code];
+        if (typeof value !== "string" || !value) {
+          throw new Error(`Missing '${code}' translation for '${key}'`);
+        }
+        merged[code] = value;
+      }
+      return [key, merged];
+    })
+  );
+};
@@ -0,0 +1,406 @@
+/**
+ * [MODULE] :: ASSET_VERIFICATION
+ * ----------------------------------------------------------------------
+ * Comprueba que img_url y demo_url existen de verdad antes de guardar.
+ * El LLM suele inventar rutas raw.githubusercontent con la rama o el
+ * directorio equivocados: para imágenes del propio repo se prueban
+ * ramas y rutas alternativas sacadas del README.
+ *
+ * Solo un fallo definitivo (4xx o algo que no es imagen) descarta la
+ * URL. Un fallo temporal (timeout, red, 5xx) no prueba nada: la URL se
+ * conserva sin verificar, para que un host caído no borre el proyecto.
+ *
+ * `fetch` y la base raw son inyectables para probar contra un servidor
+ * HTTP local (ver shared/utils/scripts/test-assets.ts).
+ *
+ * @module    server/utils/assets
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { Project } from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: ASSET_CHECK
+ * Resultado de sondear una URL.
+ */
+export type AssetCheck = {
+  url: string;
+  ok: boolean;
+  status?: number;
+  contentType?: string;
+  reason?: string; // Por qué no vale (HTTP 404, timeout, not an image...)
+  transient?: boolean; // Fallo temporal (timeout, red, 5xx): no prueba que esté rota
+};
+
+/**
+ * [TYPE] :: ASSET_CONTEXT
+ * Datos del repo para reconstruir rutas de imágenes relativas.
+ */
+export type AssetContext = {
+  owner: string;
+  repo: string;
+  branch: string;
+  readme?: string;
+};
+
+/**
+ * [TYPE] :: ASSET_OPTIONS
+ * Inyección de dependencias para tests con servidor local.
+ */
+export type AssetOptions = {
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+  rawBaseUrl?: string; // default: https://raw.githubusercontent.com
+};
+
+/**
+ * [TYPE] :: ASSET_REPORT
+ * URLs verificadas (o null si rotas) y motivos legibles de cada fallo.
+ * Las que fallaron de forma temporal se conservan y van en `unverified`.
+ */
+export type AssetReport = {
+  imgUrl: string | null;
+  demoUrl: string | null;
+  image: AssetCheck | null;
+  demo: AssetCheck | null;
+  reasons: string[];
+  unverified: string[];
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const RAW_GITHUB_BASE = "https://raw.githubusercontent.com";
+const GITHUB_BLOB_REGEX =
+  /^https?:\/\/github\.com\/([^/]+)\/([^/]+)\/(?:blob|raw)\/([^/]+)\/(.+)$/;
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const FALLBACK_BRANCHES = ["main", "master"];
+const MAX_IMAGE_CANDIDATES = 8;
+
+const IMAGE_CONTENT_PREFIX = "image/";
+const SVG_EXTENSION = ".svg";
+const TEXT_PLAIN = "text/plain"; // raw.githubusercontent sirve SVG así
+
+// Servidores que bloquean bots pero existen: no son demos rotas
+const REACHABLE_BLOCKED_STATUSES = [401, 403, 429];
+// Servidores que no aceptan HEAD: reintentar con GET
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501];
+// Fallos del servidor (5xx) o rate limit: no dicen nada de la URL
+const SERVER_ERROR_STATUS = 500;
+const TOO_MANY_REQUESTS_STATUS = 429;
+
+const MD_IMAGE_REGEX = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const HTML_IMAGE_REGEX = /<img[^>]+src=["']([^"']+)["']/gi;
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: IS_ASSET_VERIFICATION_ENABLED
+ * NUXT_VERIFY_ASSETS=false la desactiva (ej: ingestas offline).
+ */
+export function isAssetVerificationEnabled(): boolean {
+  return process.env.NUXT_VERIFY_ASSETS !== "false";
+}
+
+/**
+ * [CONFIG] :: GET_ASSET_TIMEOUT
+ * Timeout por petición (NUXT_ASSET_TIMEOUT_MS, default 5s).
+ */
+function getAssetTimeout(): number {
+  const value = parseInt(process.env.NUXT_ASSET_TIMEOUT_MS || "");
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+// =====================================================================
+// [SECTION] :: PROBING
+// =====================================================================
+
+/**
+ * [HTTP] :: REQUEST_WITH_TIMEOUT
+ * fetch con AbortSignal.timeout; el cuerpo del GET se descarta.
+ */
+async function requestWithTimeout(
+  url: string,
+  method: "HEAD" | "GET",
+  options: Required<Pick<AssetOptions, "timeoutMs" | "fetch">>
+): Promise<Response> {
+  const res = await options.fetch(url, {
+    method,
+    redirect: "follow",
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+  if (method === "GET") await res.body?.cancel();
+  return res;
+}
+
+/**
+ * [HTTP] :: PROBE_URL
+ * HEAD y, si el servidor no lo soporta, GET. Nunca lanza: timeout, red
+ * caída, 5xx y 429 se marcan `transient`.
+ *
+ * @param url     - URL a sondear.
+ * @param options - (Optional) Timeout y fetch inyectado.
+ *
+ * @returns AssetCheck con status y content-type.
+ */
+export async function probeUrl(
+  url: string,
+  options: AssetOptions = {}
+): Promise<AssetCheck> {
+  const resolved = {
+    timeoutMs: options.timeoutMs ?? getAssetTimeout(),
+    fetch: options.fetch ?? fetch,
+  };
+
+  try {
+    let res = await requestWithTimeout(url, "HEAD", resolved);
+    if (HEAD_UNSUPPORTED_STATUSES.includes(res.status)) {
+      res = await requestWithTimeout(url, "GET", resolved);
+    }
+
+    const contentType = res.headers.get("content-type")?.toLowerCase() || "";
+    return {
+      url,
+      ok: res.ok,
+      status: res.status,
+      contentType,
+      reason: res.ok ? undefined : `HTTP ${res.status}`,
+      transient:
+        res.status >= SERVER_ERROR_STATUS ||
+        res.status === TOO_MANY_REQUESTS_STATUS,
+    };
+  } catch (err: any) {
+    const timedOut = err?.name === "TimeoutError" || err?.name === "AbortError";
+    return {
+      url,
+      ok: false,
+      reason: timedOut
+        ? `timeout after ${resolved.timeoutMs}ms`
+        : `unreachable (${err?.cause?.code || err?.message || "network error"})`,
+      transient: true,
+    };
+  }
+}
+
+/**
+ * [CHECK] :: IS_IMAGE_RESPONSE
+ * content-type image/*, o SVG servido como text/plain por GitHub.
+ */
+function isImageResponse(check: AssetCheck): boolean {
+  const type = check.contentType || "";
+  if (type.startsWith(IMAGE_CONTENT_PREFIX)) return true;
+  const path = check.url.split(/[?#]/)[0]!.toLowerCase();
+  return type.startsWith(TEXT_PLAIN) && path.endsWith(SVG_EXTENSION);
+}
+
+// =====================================================================
+// [SECTION] :: IMAGE CANDIDATES
+// =====================================================================
+
+/**
+ * [PARSE] :: TO_RAW_URL
+ * github.com/{o}/{r}/blob/{b}/{path} -> raw.githubusercontent (error típico).
+ */
+function toRawUrl(url: string, rawBase: string): string {
+  const match = url.match(GITHUB_BLOB_REGEX);
+  if (!match) return url;
+  const [, owner, repo, branch, path] = match;
+  return `${rawBase}/${owner}/${repo}/${branch}/${path}`;
+}
+
+/**
+ * [PARSE] :: PARSE_REPO_RAW_PATH
+ * Si la URL es un raw del propio repo, devuelve la ruta del fichero.
+ */
+function parseRepoRawPath(
+  url: string,
+  ctx: AssetContext,
+  rawBase: string
+): string | null {
+  const prefix = `${rawBase}/${ctx.owner}/${ctx.repo}/`.toLowerCase();
+  if (!url.toLowerCase().startsWith(prefix)) return null;
+
+  // Quitar la rama (primer segmento tras owner/repo)
+  const rest = url.slice(prefix.length);
+  const slash = rest.indexOf("/");
+  return slash === -1 ? null : rest.slice(slash + 1);
+}
+
+/**
+ * [PARSE] :: RELATIVE_README_IMAGES
+ * Rutas de imágenes relativas referenciadas en el README.
+ */
+function relativeReadmeImages(readme: string): string[] {
+  const paths: string[] = [];
+  for (const regex of [MD_IMAGE_REGEX, HTML_IMAGE_REGEX]) {
+    for (const match of readme.matchAll(regex)) {
+      const src = match[1]!;
+      if (/^[a-z]+:\/\//i.test(src) || src.startsWith("data:")) continue;
+      paths.push(src.replace(/^\.?\//, ""));
+    }
+  }
+  return [...new Set(paths)];
+}
+
+/**
+ * [PARSE] :: BASENAME
+ */
+function basename(path: string): string {
+  return path.split(/[?#]/)[0]!.split("/").pop()!.toLowerCase();
+}
+
+/**
+ * [BUILD] :: IMAGE_CANDIDATES
+ * URL original + variantes en otras ramas + rutas del README con el
+ * mismo nombre de fichero (o todas si ninguna coincide).
+ */
+function imageCandidates(
+  imgUrl: string,
+  ctx: AssetContext,
+  rawBase: string
+): string[] {
+  const original = toRawUrl(imgUrl, rawBase);
+  const candidates = [original];
+
+  const path = parseRepoRawPath(original, ctx, rawBase);
+  if (path === null) return candidates; // Imagen externa: sin alternativas
+
+  const branches = [...new Set([ctx.branch, ...FALLBACK_BRANCHES])];
+  const readmePaths = ctx.readme ? relativeReadmeImages(ctx.readme) : [];
+  const sameName = readmePaths.filter((p) => basename(p) === basename(path));
+  const paths = [
+    ...new Set([path, ...(sameName.length ? sameName : readmePaths)]),
+  ];
+
+  for (const candidatePath of paths) {
+    for (const branch of branches) {
+      candidates.push(
+        `${rawBase}/${ctx.owner}/${ctx.repo}/${branch}/${candidatePath}`
+      );
+    }
+  }
+
+  return [...new Set(candidates)].slice(0, MAX_IMAGE_CANDIDATES);
+}
+
+// =====================================================================
+// [SECTION] :: VERIFICATION
+// =====================================================================
+
+/**
+ * [VERIFY] :: VERIFY_IMAGE_URL
+ * Prueba los candidatos en orden y devuelve el primero que sea imagen.
+ * Si ninguno vale pero alguno falló de forma temporal, el resultado es
+ * temporal (el bueno podría ser justo ese).
+ *
+ * @param imgUrl  - URL propuesta por el extractor/manifest.
+ * @param ctx     - Repo, rama y README.
+ * @param options - (Optional) Inyección para tests.
+ *
+ * @returns Check del candidato válido o del original con el motivo.
+ */
+export async function verifyImageUrl(
+  imgUrl: string,
+  ctx: AssetContext,
+  options: AssetOptions = {}
+): Promise<AssetCheck> {
+  const rawBase = (options.rawBaseUrl ?? RAW_GITHUB_BASE).replace(/\/+$/, "");
+  const candidates = imageCandidates(imgUrl, ctx, rawBase);
+
+  let first: AssetCheck | null = null;
+  let transient: AssetCheck | null = null;
+  for (const candidate of candidates) {
+    const check = await probeUrl(candidate, options);
+    if (check.ok && !isImageResponse(check)) {
+      check.ok = false;
+      check.reason = `not an image (${check.contentType || "no content-type"})`;
+    }
+    if (check.ok) {
+      if (candidate !== imgUrl) {
+        console.log(`[ASSET] :: IMG_FIXED     :: ${imgUrl} -> ${candidate}`);
+      }
+      return check;
+    }
+    first ??= check;
+    if (check.transient) transient ??= check;
+  }
+
+  const failed = transient ?? first!;
+  const tried =
+    candidates.length > 1 ? ` (tried ${candidates.length} URLs)` : "";
+  return { ...failed, url: imgUrl, reason: `${failed.reason}${tried}` };
+}
+
+/**
+ * [VERIFY] :: VERIFY_DEMO_URL
+ * La demo vale si responde (tras redirecciones) o si bloquea bots.
+ *
+ * @param demoUrl - URL de la demo.
+ * @param options - (Optional) Inyección para tests.
+ *
+ * @returns Check de la demo.
+ */
+export async function verifyDemoUrl(
+  demoUrl: string,
+  options: AssetOptions = {}
+): Promise<AssetCheck> {
+  const check = await probeUrl(demoUrl, options);
+  if (!check.ok && REACHABLE_BLOCKED_STATUSES.includes(check.status ?? 0)) {
+    return { ...check, ok: true, reason: undefined };
+  }
+  return check;
+}
+
+/**
+ * [VERIFY] :: VERIFY_PROJECT_ASSETS
+ * Verifica img_url y demo_url del proyecto en paralelo.
+ *
+ * @param project - Proyecto extraído.
+ * @param ctx     - Repo, rama y README.
+ * @param options - (Optional) Inyección para tests.
+ *
+ * @returns Informe con URLs válidas (corregidas si hizo falta), las no
+ *          verificadas por un fallo temporal y los motivos.
+ */
+export async function verifyProjectAssets(
+  project: Pick<Project, "img_url" | "demo_url">,
+  ctx: AssetContext,
+  options: AssetOptions = {}
+): Promise<AssetReport> {
+  const [image, demo] = await Promise.all([
+    project.img_url ? verifyImageUrl(project.img_url, ctx, options) : null,
+    project.demo_url ? verifyDemoUrl(project.demo_url, options) : null,
+  ]);
+
+  const reasons: string[] = [];
+  const unverified: string[] = [];
+  for (const [field, check] of [
+    ["img_url", image],
+    ["demo_url", demo],
+  ] as const) {
+    if (!check || check.ok) continue;
+    (check.transient ? unverified : reasons).push(`${field}: ${check.reason}`);
+  }
+
+  // Fallo temporal: la URL se queda tal cual (sin verificar)
+  const keep = (check: AssetCheck | null) =>
+    check && (check.ok || check.transient) ? check.url : null;
+
+  return {
+    imgUrl: keep(image),
+    demoUrl: keep(demo),
+    image,
+    demo,
+    reasons,
+    unverified,
+  };
+}
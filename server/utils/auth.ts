@@ -0,0 +1,230 @@
+/**
+ * [MODULE] :: AUTH_UTILS
+ * ----------------------------------------------------------------------
+ * Protección por token compartido para endpoints internos.
+ * Acepta `Authorization: Bearer <token>` contra NUXT_ADMIN_TOKEN, o la
+ * cookie de sesión que emite /api/admin/session para el panel /admin
+ * (firmada con el propio token: cambiarlo invalida todas las sesiones).
+ * Los crons externos (Vercel Cron) se autentican con CRON_SECRET.
+ *
+ * @module    server/utils/auth
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import crypto from "crypto";
+import type { H3Event } from "h3";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const HEADER_AUTHORIZATION = "authorization";
+const BEARER_PREFIX = "Bearer ";
+
+const SESSION_COOKIE = "tinyshow_admin";
+const SESSION_TTL_S = 7 * 24 * 60 * 60; // 7 días
+const SESSION_SCOPE = "tinyshow-admin-session";
+const HMAC_ALGO = "sha256";
+
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_SERVICE_UNAVAILABLE = 503;
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: GET_ADMIN_TOKEN
+ * Token desde runtime config o process.env.
+ */
+function getAdminToken(): string {
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      const token = useRuntimeConfig()?.adminToken as string | undefined;
+      if (token) return token;
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+  return process.env.NUXT_ADMIN_TOKEN || "";
+}
+
+/**
+ * [CONFIG] :: GET_CRON_SECRET
+ * Secreto que Vercel Cron envía como Bearer (CRON_SECRET).
+ */
+function getCronSecret(): string {
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      const secret = useRuntimeConfig()?.cronSecret as string | undefined;
+      if (secret) return secret;
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+  return process.env.CRON_SECRET || "";
+}
+
+/**
+ * [UTIL] :: BEARER_TOKEN
+ * Token de la cabecera `Authorization: Bearer <token>` (o vacío).
+ */
+function bearerToken(event: H3Event): string {
+  const header = getHeader(event, HEADER_AUTHORIZATION) || "";
+  return header.startsWith(BEARER_PREFIX)
+    ? header.slice(BEARER_PREFIX.length).trim()
+    : "";
+}
+
+/**
+ * [CHECK] :: SAFE_EQUAL
+ * Comparación en tiempo constante para evitar timing attacks.
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * [AUTH] :: SIGN_SESSION
+ * Firma HMAC de la caducidad de la sesión con el token de admin.
+ */
+function signSession(expiresAt: number, token: string): string {
+  return crypto
+    .createHmac(HMAC_ALGO, token)
+    .update(`${SESSION_SCOPE}:${expiresAt}`)
+    .digest("base64url");
+}
+
+/**
+ * [CHECK] :: HAS_VALID_SESSION
+ * Cookie `<expira>.<firma>` vigente y firmada con el token actual.
+ */
+function hasValidSession(event: H3Event, token: string): boolean {
+  const [expiresRaw = "", signature = ""] = (
+    getCookie(event, SESSION_COOKIE) || ""
+  ).split(".");
+  const expiresAt = Number(expiresRaw);
+
+  if (!expiresAt || expiresAt * 1000 < Date.now()) return false;
+  return safeEqual(signature, signSession(expiresAt, token));
+}
+
+// =====================================================================
+// [SECTION] :: GUARDS
+// =====================================================================
+
+/**
+ * [AUTH] :: REQUIRE_ADMIN_TOKEN
+ * Lanza 401 si la petición no trae el token de administración correcto
+ * ni una sesión de admin válida.
+ * Sin token configurado el endpoint queda deshabilitado (503).
+ *
+ * @param event - Evento H3 de la petición.
+ *
+ * @throws {H3Error} - 401 si el token falta o no coincide, 503 si no hay token.
+ */
+export function requireAdminToken(event: H3Event): void {
+  const expected = getAdminToken();
+
+  if (!expected) {
+    throw createError({
+      statusCode: HTTP_SERVICE_UNAVAILABLE,
+      statusMessage: "Service Unavailable",
+      message: "NUXT_ADMIN_TOKEN is not configured",
+    });
+  }
+
+  if (hasValidSession(event, expected)) return;
+
+  const provided = bearerToken(event);
+  if (!provided || !safeEqual(provided, expected)) {
+    throw createError({
+      statusCode: HTTP_UNAUTHORIZED,
+      statusMessage: "Unauthorized",
+    });
+  }
+}
+
+/**
+ * [AUTH] :: REQUIRE_CRON_SECRET
+ * Acepta el Bearer de CRON_SECRET; si no coincide (o no hay secreto),
+ * exige la autenticación de admin.
+ *
+ * @param event - Evento H3 de la petición.
+ *
+ * @throws {H3Error} - 401/503 como requireAdminToken.
+ */
+export function requireCronSecret(event: H3Event): void {
+  const secret = getCronSecret();
+  const provided = bearerToken(event);
+
+  if (secret && provided && safeEqual(provided, secret)) return;
+  requireAdminToken(event);
+}
+
+// =====================================================================
+// [SECTION] :: SESSIONS
+// =====================================================================
+
+/**
+ * [AUTH] :: HAS_ADMIN_SESSION
+ * true si la petición trae una sesión de admin válida (sin lanzar).
+ */
+export function hasAdminSession(event: H3Event): boolean {
+  const expected = getAdminToken();
+  return !!expected && hasValidSession(event, expected);
+}
+
+/**
+ * [AUTH] :: START_ADMIN_SESSION
+ * Canjea el token compartido por una cookie de sesión httpOnly.
+ *
+ * @param event - Evento H3 de la petición.
+ * @param token - Token introducido en el login.
+ *
+ * @throws {H3Error} - 401 si el token no coincide, 503 si no hay token.
+ */
+export function startAdminSession(event: H3Event, token: string): void {
+  const expected = getAdminToken();
+
+  if (!expected) {
+    throw createError({
+      statusCode: HTTP_SERVICE_UNAVAILABLE,
+      statusMessage: "Service Unavailable",
+      message: "NUXT_ADMIN_TOKEN is not configured",
+    });
+  }
+
+  if (!token || !safeEqual(token, expected)) {
+    throw createError({
+      statusCode: HTTP_UNAUTHORIZED,
+      statusMessage: "Unauthorized",
+    });
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_S;
+  setCookie(
+    event,
+    SESSION_COOKIE,
+    `${expiresAt}.${signSession(expiresAt, expected)}`,
+    {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: !import.meta.dev,
+      path: "/",
+      maxAge: SESSION_TTL_S,
+    }
+  );
+  console.log(`[AUTH]  ++ ADMIN_LOGIN   :: ttl: ${SESSION_TTL_S}s`);
+}
+
+/**
+ * [AUTH] :: END_ADMIN_SESSION
+ * Borra la cookie de sesión.
+ */
+export function endAdminSession(event: H3Event): void {
+  deleteCookie(event, SESSION_COOKIE, { path: "/" });
+}
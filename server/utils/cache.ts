@@ -21,6 +21,10 @@ const CACHE_PREFIXES = [
   "nitro:handlers:projects-list",
   "nitro:handlers:projects-techs",
   "nitro:handlers:project-detail",
+  "nitro:handlers:projects-search",
+  "nitro:handlers:stats-techs",
+  "nitro:handlers:courses-list",
+  "nitro:handlers:course-detail",
 ];
 
 // =====================================================================
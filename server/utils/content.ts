@@ -0,0 +1,164 @@
+/**
+ * [MODULE] :: PROJECT_CONTENT
+ * ----------------------------------------------------------------------
+ * Contenido de un proyecto tal y como lo escribe la ingesta: los campos
+ * bloqueables más la imagen espejada. Base común de la revisión
+ * editorial (borrador frente a publicado), del historial de revisiones
+ * (snapshot frente a snapshot) y de la forma pública de la API.
+ *
+ * @module    server/utils/content
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { Prisma } from "@prisma/client";
+import { jsonColumn } from "./prisma";
+import { normalizeLockedFields } from "./locks";
+import {
+  LOCKABLE_FIELDS,
+  type LockableField,
+  type OriginType,
+  type Project,
+  type ProjectImage,
+} from "../../shared/types";
+import { fillMissingLocales } from "../../shared/locales";
+import { canonicalTech, canonicalTechStack } from "../../shared/techs";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: PROJECT_CONTENT
+ * Columnas que escribe la ingesta (lo que se revisa, versiona y publica).
+ */
+export type ProjectContent = Partial<
+  Pick<Project, LockableField | "repo_url" | "image">
+>;
+
+/**
+ * [TYPE] :: FIELD_CHANGE
+ * Diferencia de un campo entre dos versiones del contenido.
+ */
+export type FieldChange = {
+  field: LockableField;
+  before: unknown;
+  after: unknown;
+};
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: STABLE_STRINGIFY
+ * JSON con claves ordenadas (JSONB de Postgres reordena las claves).
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * [UTIL] :: PICK_CONTENT
+ * Contenido versionable de una fila guardada (campos bloqueables e
+ * imagen espejada).
+ */
+export function pickContent(row: Record<string, unknown>): ProjectContent {
+  const content: Record<string, unknown> = {};
+  for (const field of LOCKABLE_FIELDS) content[field] = row[field] ?? null;
+  content.image = row.image ?? null;
+  return content as ProjectContent;
+}
+
+/**
+ * [DIFF] :: DIFF_PROJECT
+ * Campos bloqueables que cambian entre la versión actual y la propuesta.
+ * Solo se comparan los campos presentes en `proposed`.
+ *
+ * @param current  - Fila guardada o snapshot de referencia.
+ * @param proposed - Contenido nuevo (borrador o snapshot posterior).
+ *
+ * @returns Lista de cambios (vacía si son equivalentes).
+ */
+export function diffProject(
+  current: Record<string, unknown>,
+  proposed: ProjectContent
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of LOCKABLE_FIELDS) {
+    if (!(field in proposed)) continue;
+    const before = current[field] ?? null;
+    const after = proposed[field] ?? null;
+    if (stableStringify(before) !== stableStringify(after)) {
+      changes.push({ field, before, after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * [UTIL] :: TO_CONTENT_COLUMNS
+ * Contenido a columnas de Prisma (Json? nulos como SQL NULL). Los
+ * campos ausentes quedan `undefined`: Prisma no los toca.
+ */
+export function toContentColumns(
+  content: ProjectContent
+): Prisma.ProjectUpdateInput {
+  const { tagline, description, origin, image, ...columns } = content;
+  return {
+    ...columns,
+    tagline: tagline as Prisma.InputJsonValue | undefined,
+    description: description as Prisma.InputJsonValue | undefined,
+    origin: jsonColumn(origin),
+    image: jsonColumn(image),
+  };
+}
+
+// =====================================================================
+// [SECTION] :: PUBLIC SHAPE
+// =====================================================================
+
+/**
+ * [UTIL] :: TO_PUBLIC_PROJECT
+ * Fila de Prisma a Project para los listados públicos: castea los
+ * campos JSONB, rellena idiomas ausentes con el idioma por defecto,
+ * sirve la imagen espejada en lugar de la original y las tecnologías
+ * con su nombre canónico (filas anteriores al registro de techs).
+ */
+export function toPublicProject(row: Record<string, any>): Project {
+  const image = row.image as ProjectImage | null;
+  return {
+    id: row.id,
+    title: row.title,
+    primary_tech: canonicalTech(row.primary_tech),
+    tagline: fillMissingLocales(row.tagline as Record<string, string>),
+    description: fillMissingLocales(row.description as Record<string, string>),
+    tech_stack: canonicalTechStack(row.tech_stack),
+    // Imagen espejada si existe: sin hotlink a GitHub
+    img_url: image?.src ?? row.img_url,
+    image,
+    repo_url: row.repo_url,
+    demo_url: row.demo_url,
+    origin: row.origin as unknown as OriginType,
+    // Campos curados a mano; el resto los generó la extracción
+    locked_fields: normalizeLockedFields(row.locked_fields),
+    // Curación del escaparate
+    sort_order: row.sort_order,
+    featured: row.featured,
+    pinned: row.pinned,
+  };
+}
@@ -0,0 +1,397 @@
+/**
+ * [MODULE] :: COURSES
+ * ----------------------------------------------------------------------
+ * Cursos y autores como entidades propias. `origin` lo escribe la IA por
+ * proyecto, así que el mismo curso llega con nombres ligeramente
+ * distintos ("Curso de Nuxt 3 de Midudev", "Nuxt 3 Course"). Al guardar
+ * un proyecto se resuelve su origin contra los Course/Author existentes
+ * con una comparación difusa y se enlaza por `course_id`; si no hay
+ * ninguno parecido, se crea. `origin` se conserva tal cual (es lo que
+ * extrajo la IA y lo que se bloquea y versiona).
+ *
+ * @module    server/utils/courses
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { toPublicProject } from "./content";
+import { STATUS_PUBLISHED } from "./review";
+import type { CourseWithProjects, OriginType } from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+/** Similitud mínima (Dice sobre bigramas) para considerar dos nombres iguales */
+const SIMILARITY_THRESHOLD = 0.85;
+
+/** Palabras que no distinguen un curso de otro */
+const COURSE_STOP_WORDS = new Set([
+  "course",
+  "curso",
+  "bootcamp",
+  "tutorial",
+  "workshop",
+  "taller",
+  "class",
+  "clase",
+  "the",
+  "el",
+  "la",
+  "de",
+  "del",
+  "en",
+  "con",
+  "by",
+  "por",
+  "of",
+  "with",
+  "a",
+]);
+
+/** Sufijo numérico de slugs repetidos (`nuxt-course-2`) */
+const MAX_SLUG_ATTEMPTS = 50;
+
+// =====================================================================
+// [SECTION] :: NAME MATCHING
+// =====================================================================
+
+/**
+ * [UTIL] :: NAME_TOKENS
+ * Palabras de un nombre en minúsculas, sin acentos ni puntuación.
+ */
+function nameTokens(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * [UTIL] :: SLUGIFY
+ * `Nuxt 3: Fundamentos` -> `nuxt-3-fundamentos`.
+ */
+function slugify(text: string): string {
+  return nameTokens(text).join("-");
+}
+
+/**
+ * [UTIL] :: COURSE_KEY
+ * Nombre comparable de un curso: sin palabras vacías ni el nombre del
+ * autor (la IA a veces lo repite: "Midudev Nuxt Course").
+ */
+function courseKey(name: string, authorName?: string | null): string {
+  const authorTokens = new Set(authorName ? nameTokens(authorName) : []);
+  const tokens = nameTokens(name).filter(
+    (token) => !COURSE_STOP_WORDS.has(token) && !authorTokens.has(token)
+  );
+  // Si todo eran palabras vacías, mejor el nombre entero que nada
+  return (tokens.length ? tokens : nameTokens(name)).join(" ");
+}
+
+/**
+ * [UTIL] :: URL_KEY
+ * URL comparable: sin protocolo, www, query, hash ni barra final.
+ */
+function urlKey(url?: string | null): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, "");
+    return `${host}${parsed.pathname.replace(/\/+$/, "")}`.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * [UTIL] :: BIGRAMS
+ * Pares de caracteres consecutivos (sin espacios).
+ */
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, "");
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+/**
+ * [UTIL] :: SIMILARITY
+ * Coeficiente de Dice sobre bigramas (0 = nada en común, 1 = iguales).
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const pair of left) counts.set(pair, (counts.get(pair) ?? 0) + 1);
+
+  let shared = 0;
+  for (const pair of right) {
+    const count = counts.get(pair) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * [UTIL] :: BEST_MATCH
+ * Candidato más parecido por encima del umbral (una URL igual gana).
+ */
+function bestMatch<T>(
+  candidates: T[],
+  key: string,
+  url: string | null,
+  toKey: (candidate: T) => string,
+  toUrl: (candidate: T) => string | null
+): T | null {
+  let best: T | null = null;
+  let bestScore = SIMILARITY_THRESHOLD;
+
+  for (const candidate of candidates) {
+    if (url && toUrl(candidate) === url) return candidate;
+
+    const score = similarity(key, toKey(candidate));
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * [DB] :: UNIQUE_SLUG
+ * Slug libre para un modelo (añade -2, -3... si ya existe).
+ */
+async function uniqueSlug(
+  base: string,
+  exists: (slug: string) => Promise<boolean>
+): Promise<string> {
+  const root = base || "untitled";
+  for (let attempt = 1; attempt <= MAX_SLUG_ATTEMPTS; attempt++) {
+    const slug = attempt === 1 ? root : `${root}-${attempt}`;
+    if (!(await exists(slug))) return slug;
+  }
+  return `${root}-${Date.now()}`;
+}
+
+// =====================================================================
+// [SECTION] :: RESOLUTION
+// =====================================================================
+
+/**
+ * [DB] :: RESOLVE_AUTHOR
+ * Author existente que se parezca al nombre (o comparta URL), o uno
+ * nuevo. Completa la URL si el existente no la tenía.
+ *
+ * @returns ID del autor.
+ */
+async function resolveAuthor(
+  name: string,
+  url?: string | null
+): Promise<string> {
+  const authors = await prisma.author.findMany();
+  const match = bestMatch(
+    authors,
+    nameTokens(name).join(" "),
+    urlKey(url),
+    (author) => nameTokens(author.name).join(" "),
+    (author) => urlKey(author.url)
+  );
+
+  if (match) {
+    if (!match.url && url) {
+      await prisma.author.update({ where: { id: match.id }, data: { url } });
+    }
+    return match.id;
+  }
+
+  const slug = await uniqueSlug(
+    slugify(name),
+    async (candidate) =>
+      !!(await prisma.author.findUnique({ where: { slug: candidate } }))
+  );
+  const author = await prisma.author.create({
+    data: { name: name.trim(), slug, url: url ?? null },
+  });
+  console.log(
+    `[DB]    ++ AUTHOR        :: slug: ${slug} | name: ${author.name}`
+  );
+  return author.id;
+}
+
+/**
+ * [DB] :: RESOLVE_COURSE
+ * Course existente del mismo autor que se parezca al nombre (o comparta
+ * URL), o uno nuevo.
+ *
+ * @returns ID del curso, o null si el origin no es un curso.
+ */
+export async function resolveCourse(
+  origin: OriginType
+): Promise<string | null> {
+  if (!origin?.is_course) return null;
+
+  const authorName = origin.author?.trim() || null;
+  const name = origin.name?.trim() || authorName;
+  if (!name) return null; // Curso sin nombre ni autor: nada que enlazar
+
+  const authorId = authorName
+    ? await resolveAuthor(authorName, origin.author_url)
+    : null;
+
+  const courses = await prisma.course.findMany({
+    where: { author_id: authorId },
+    include: { author: true },
+  });
+  const match = bestMatch(
+    courses,
+    courseKey(name, authorName),
+    urlKey(origin.course_url),
+    (course) => courseKey(course.name, course.author?.name),
+    (course) => urlKey(course.url)
+  );
+
+  if (match) {
+    if (!match.url && origin.course_url) {
+      await prisma.course.update({
+        where: { id: match.id },
+        data: { url: origin.course_url },
+      });
+    }
+    return match.id;
+  }
+
+  const slug = await uniqueSlug(
+    slugify(authorName ? `${name} ${authorName}` : name),
+    async (candidate) =>
+      !!(await prisma.course.findUnique({ where: { slug: candidate } }))
+  );
+  const course = await prisma.course.create({
+    data: {
+      name,
+      slug,
+      url: origin.course_url ?? null,
+      author_id: authorId,
+    },
+  });
+  console.log(
+    `[DB]    ++ COURSE        :: slug: ${slug} | name: ${course.name}`
+  );
+  return course.id;
+}
+
+/**
+ * [PERSIST] :: LINK_PROJECT_COURSE
+ * Enlaza el proyecto con el curso de su origin (o lo desenlaza si ya no
+ * es de un curso). Nunca lanza: un fallo aquí no debe romper la
+ * escritura del proyecto.
+ *
+ * @param projectId - ID del proyecto.
+ * @param origin    - Origin guardado (columna publicada, no el borrador).
+ */
+export async function linkProjectCourse(
+  projectId: string,
+  origin: unknown
+): Promise<void> {
+  try {
+    const courseId = await resolveCourse(origin as OriginType);
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { course_id: courseId },
+    });
+  } catch (err: any) {
+    console.error(
+      `[ERR]   :: COURSE_LINK   :: id: ${projectId} | ${err.message}`
+    );
+  }
+}
+
+// =====================================================================
+// [SECTION] :: QUERIES
+// =====================================================================
+
+/**
+ * [TYPE] :: COURSE_ROW
+ * Fila de Course con su autor y sus proyectos.
+ */
+type CourseRow = Prisma.CourseGetPayload<{
+  include: { author: true; projects: true };
+}>;
+
+/**
+ * [UTIL] :: TO_COURSE_WITH_PROJECTS
+ * Fila de Course (con autor y proyectos) -> forma pública.
+ */
+function toCourseWithProjects(course: CourseRow): CourseWithProjects {
+  return {
+    slug: course.slug,
+    name: course.name,
+    url: course.url,
+    author: course.author
+      ? {
+          slug: course.author.slug,
+          name: course.author.name,
+          url: course.author.url,
+        }
+      : null,
+    projects: course.projects.map((project) => toPublicProject(project)),
+  };
+}
+
+/** Proyectos publicados de un curso, en el orden en que se hicieron */
+const COURSE_PROJECTS = {
+  where: { status: STATUS_PUBLISHED },
+  orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+} satisfies Prisma.Course$projectsArgs;
+
+/**
+ * [DB] :: LIST_COURSES
+ * Cursos con al menos un proyecto publicado, del más antiguo al más
+ * reciente según su primer proyecto (el "camino de aprendizaje").
+ */
+export async function listCourses(): Promise<CourseWithProjects[]> {
+  const courses = await prisma.course.findMany({
+    where: { projects: { some: { status: STATUS_PUBLISHED } } },
+    include: { author: true, projects: COURSE_PROJECTS },
+  });
+
+  // Proyectos ya ordenados: el primero marca cuándo empezó el curso
+  const startedAt = (course: (typeof courses)[number]) =>
+    course.projects[0]?.createdAt.getTime() ?? 0;
+
+  return courses
+    .sort((a, b) => startedAt(a) - startedAt(b) || a.name.localeCompare(b.name))
+    .map(toCourseWithProjects);
+}
+
+/**
+ * [DB] :: GET_COURSE
+ * Un curso por slug con sus proyectos publicados.
+ *
+ * @returns Curso o null si no existe o no tiene proyectos publicados.
+ */
+export async function getCourse(
+  slug: string
+): Promise<CourseWithProjects | null> {
+  const course = await prisma.course.findUnique({
+    where: { slug },
+    include: { author: true, projects: COURSE_PROJECTS },
+  });
+  if (!course || course.projects.length === 0) return null;
+
+  return toCourseWithProjects(course);
+}
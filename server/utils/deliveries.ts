@@ -0,0 +1,220 @@
+/**
+ * [MODULE] :: WEBHOOK_DELIVERIES
+ * ----------------------------------------------------------------------
+ * Idempotencia de webhooks por X-GitHub-Delivery. Cada entrega se
+ * registra con su resultado; las re-entregas de una ya procesada se
+ * responden con el resultado guardado sin volver a ingerir. Si encoló
+ * una ingesta se guarda el trabajo (`job_id`): la re-entrega informa de
+ * su estado real y de su última ejecución, no solo de "queued".
+ *
+ * @module    server/utils/deliveries
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: DELIVERY_STATUS
+ * 'failed' no bloquea: una re-entrega de un fallo se vuelve a procesar.
+ * Tampoco un 'processing' antiguo (la función murió tras reclamarla).
+ */
+export type DeliveryStatus = "processing" | "done" | "failed";
+
+/**
+ * [TYPE] :: DELIVERY_META
+ * Datos de la entrega conocidos antes de procesarla.
+ */
+export type DeliveryMeta = {
+  event: string;
+  action?: string | null;
+  owner?: string | null;
+  repo?: string | null;
+};
+
+/**
+ * [TYPE] :: DELIVERY_JOB
+ * Estado actual del trabajo que encoló la entrega y su última ejecución.
+ * `status` es null si el trabajo ya no existe (fusionado con otro
+ * pendiente del mismo repo o purgado).
+ */
+export type DeliveryJob = {
+  id: string;
+  status: string | null;
+  attempts: number | null;
+  last_error: string | null;
+  run: {
+    id: string;
+    action: string;
+    reason: string | null;
+    createdAt: Date;
+  } | null;
+};
+
+/**
+ * [TYPE] :: DELIVERY_CLAIM
+ * Resultado de reclamar una entrega. Si es duplicada trae lo guardado.
+ */
+export type DeliveryClaim =
+  | { duplicate: false }
+  | {
+      duplicate: true;
+      status: DeliveryStatus;
+      outcome: unknown;
+      job: DeliveryJob | null;
+    };
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const STATUS_PROCESSING: DeliveryStatus = "processing";
+const STATUS_DONE: DeliveryStatus = "done";
+const STATUS_FAILED: DeliveryStatus = "failed";
+
+const PRISMA_UNIQUE_VIOLATION = "P2002";
+
+// Una entrega en 'processing' más antigua se da por abandonada
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutos
+
+// =====================================================================
+// [SECTION] :: LIFECYCLE
+// =====================================================================
+
+/**
+ * [DELIVERY] :: CLAIM_DELIVERY
+ * Registra la entrega. Si ya existía (y no falló ni quedó abandonada en
+ * 'processing') es un duplicado.
+ *
+ * @param deliveryId - Cabecera X-GitHub-Delivery.
+ * @param meta       - Evento, acción y repo.
+ *
+ * @returns Claim indicando si hay que procesarla.
+ */
+export async function claimDelivery(
+  deliveryId: string,
+  meta: DeliveryMeta
+): Promise<DeliveryClaim> {
+  try {
+    await prisma.webhookDelivery.create({
+      data: { id: deliveryId, ...meta, status: STATUS_PROCESSING },
+    });
+    return { duplicate: false };
+  } catch (err: any) {
+    if (err.code !== PRISMA_UNIQUE_VIOLATION) throw err;
+  }
+
+  // Re-entrega de un fallo previo o de un intento que murió a medias
+  // (crash/timeout tras reclamar): se reintenta de verdad
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+  const retried = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      OR: [
+        { status: STATUS_FAILED },
+        { status: STATUS_PROCESSING, claimed_at: { lt: staleBefore } },
+      ],
+    },
+    data: { status: STATUS_PROCESSING, claimed_at: new Date() },
+  });
+  if (retried.count > 0) {
+    console.log(
+      `[HOOK]  :: REDELIVERY    :: id: ${deliveryId} | retrying failed or stale`
+    );
+    return { duplicate: false };
+  }
+
+  const existing = await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: { redeliveries: { increment: 1 } },
+  });
+  console.log(
+    `[HOOK]  :: DUPLICATE     :: id: ${deliveryId} | status: ${existing.status}`
+  );
+
+  return {
+    duplicate: true,
+    status: existing.status as DeliveryStatus,
+    outcome: existing.outcome,
+    job: existing.job_id ? await describeDeliveryJob(existing.job_id) : null,
+  };
+}
+
+/**
+ * [DELIVERY] :: COMPLETE_DELIVERY
+ * Guarda la respuesta enviada a GitHub y el trabajo encolado, si lo hay.
+ */
+export async function completeDelivery(
+  deliveryId: string,
+  outcome: unknown
+): Promise<void> {
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: STATUS_DONE,
+      outcome: outcome as Prisma.InputJsonValue,
+      job_id: outcomeJobId(outcome),
+    },
+  });
+}
+
+/**
+ * [DELIVERY] :: FAIL_DELIVERY
+ * Marca la entrega como fallida para que una re-entrega la reprocese.
+ * Nunca lanza: el error original es el que debe llegar a GitHub.
+ */
+export async function failDelivery(
+  deliveryId: string,
+  error: unknown
+): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: STATUS_FAILED, outcome: { error: message } },
+    });
+  } catch (err: any) {
+    console.error(`[ERR]   :: DELIVERY_LOG  :: ${err.message}`);
+  }
+}
+
+// =====================================================================
+// [SECTION] :: INGEST RESULT
+// =====================================================================
+
+/**
+ * [UTIL] :: OUTCOME_JOB_ID
+ * `jobId` de la respuesta de queueIngestion (null en el resto).
+ */
+function outcomeJobId(outcome: unknown): string | null {
+  if (!outcome || typeof outcome !== "object" || !("jobId" in outcome)) {
+    return null;
+  }
+  return typeof outcome.jobId === "string" ? outcome.jobId : null;
+}
+
+/**
+ * [DB] :: DESCRIBE_DELIVERY_JOB
+ * Estado actual del trabajo y su última ejecución (IngestRun).
+ */
+async function describeDeliveryJob(jobId: string): Promise<DeliveryJob> {
+  const job = await prisma.ingestJob.findUnique({ where: { id: jobId } });
+  const run = await prisma.ingestRun.findFirst({
+    where: { job_id: jobId },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, action: true, reason: true, createdAt: true },
+  });
+
+  return {
+    id: jobId,
+    status: job?.status ?? null,
+    attempts: job?.attempts ?? null,
+    last_error: job?.last_error ?? null,
+    run,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * [MODULE] :: PROJECT_FILTERS
+ * ----------------------------------------------------------------------
+ * Filtros combinables del listado público (/api/projects): tecnologías
+ * del stack (alguna / todas), origen curso o personal, autor del curso,
+ * demo e imagen, y actualizados desde una fecha. Todos se combinan con
+ * AND. La clave de caché se normaliza para que consultas equivalentes
+ * (otro orden, mayúsculas, listas repetidas) compartan entrada.
+ *
+ * @module    server/utils/filters
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { Prisma } from "@prisma/client";
+import { ProjectFiltersSchema, type ProjectFilters } from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+/** Orden fijo de los filtros dentro de la clave de caché */
+const FILTER_KEYS = Object.keys(
+  ProjectFiltersSchema.shape
+) as (keyof ProjectFilters)[];
+
+/** Filtros que se comparan sin distinguir mayúsculas */
+const CASE_INSENSITIVE_KEYS: (keyof ProjectFilters)[] = [
+  "primary_tech",
+  "author",
+];
+
+/** Clave de caché sin filtros */
+const NO_FILTERS_KEY = "all";
+
+// =====================================================================
+// [SECTION] :: PARSING
+// =====================================================================
+
+/**
+ * [PARSE] :: PARSE_PROJECT_FILTERS
+ * Valida los filtros del query. Los parámetros vacíos (`?author=`) se
+ * ignoran, como hacía `primary_tech`; el resto (limit, sort) también.
+ */
+export function parseProjectFilters(query: Record<string, unknown>) {
+  const present = Object.fromEntries(
+    Object.entries(query).filter(([, value]) => value !== "")
+  );
+  return ProjectFiltersSchema.safeParse(present);
+}
+
+// =====================================================================
+// [SECTION] :: PRISMA WHERE
+// =====================================================================
+
+/**
+ * [UTIL] :: PRESENCE_CONDITION
+ * Columna de texto opcional con valor (o sin él: null o vacía).
+ */
+function presenceCondition(column: string, present: boolean) {
+  return present
+    ? { AND: [{ [column]: { not: null } }, { NOT: { [column]: "" } }] }
+    : { OR: [{ [column]: null }, { [column]: "" }] };
+}
+
+/**
+ * [QUERY] :: BUILD_PROJECT_WHERE
+ * Filtros -> condiciones de Prisma (se combinan con las del endpoint,
+ * ej: el estado publicado). Las tecnologías llegan ya canónicas
+ * (ProjectFiltersSchema), igual que en `tech_stack`.
+ *
+ * @returns `{ AND: [...] }` con una condición por filtro presente.
+ */
+export function buildProjectWhere(filters: ProjectFilters) {
+  const conditions: Record<string, unknown>[] = [];
+
+  if (filters.primary_tech) {
+    conditions.push({
+      primary_tech: { equals: filters.primary_tech, mode: "insensitive" },
+    });
+  }
+  if (filters.tech_any?.length) {
+    conditions.push({ tech_stack: { hasSome: filters.tech_any } });
+  }
+  if (filters.tech_all?.length) {
+    conditions.push({ tech_stack: { hasEvery: filters.tech_all } });
+  }
+
+  if (filters.origin === "course") {
+    conditions.push({ origin: { path: ["is_course"], equals: true } });
+  } else if (filters.origin === "personal") {
+    // Sin origin (NULL de SQL o JSON) o con is_course: false
+    conditions.push({
+      OR: [
+        { origin: { equals: Prisma.DbNull } },
+        { origin: { equals: Prisma.JsonNull } },
+        { origin: { path: ["is_course"], equals: false } },
+      ],
+    });
+  }
+  if (filters.author) {
+    conditions.push({
+      origin: {
+        path: ["author"],
+        string_contains: filters.author,
+        mode: "insensitive",
+      },
+    });
+  }
+
+  if (filters.has_demo !== undefined) {
+    conditions.push(presenceCondition("demo_url", filters.has_demo));
+  }
+  if (filters.has_image !== undefined) {
+    conditions.push(presenceCondition("img_url", filters.has_image));
+  }
+  if (filters.updated_since) {
+    conditions.push({ updatedAt: { gte: filters.updated_since } });
+  }
+
+  return { AND: conditions };
+}
+
+// =====================================================================
+// [SECTION] :: CACHE KEY
+// =====================================================================
+
+/**
+ * [UTIL] :: PROJECT_FILTERS_KEY
+ * Clave canónica de los filtros: orden fijo, listas ya ordenadas y sin
+ * duplicados, textos insensibles en minúsculas y fechas en ISO.
+ *
+ * @returns `primary_tech=nuxt&tech_all=GSAP,Tailwind` o 'all'.
+ */
+export function projectFiltersKey(filters: ProjectFilters): string {
+  const parts: string[] = [];
+
+  for (const key of FILTER_KEYS) {
+    const value = filters[key];
+    if (value === undefined || (Array.isArray(value) && !value.length)) {
+      continue;
+    }
+
+    let text: string;
+    if (Array.isArray(value)) text = value.join(",");
+    else if (value instanceof Date) text = value.toISOString();
+    else text = String(value);
+
+    if (CASE_INSENSITIVE_KEYS.includes(key)) text = text.toLowerCase();
+    parts.push(`${key}=${encodeURIComponent(text)}`);
+  }
+
+  return parts.join("&") || NO_FILTERS_KEY;
+}
@@ -0,0 +1,409 @@
+/**
+ * [MODULE] :: GITHUB_AUTH
+ * ----------------------------------------------------------------------
+ * Autenticación contra GitHub. Con NUXT_GITHUB_APP_ID + clave privada
+ * TinyShow actúa como GitHub App: firma un JWT, lo canjea por tokens de
+ * instalación (cacheados y renovados antes de caducar) y registra qué
+ * cuentas/repos tiene acceso. Sin App, cae al PAT GITHUB_SEED_TOKEN.
+ *
+ * @module    server/utils/github
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import crypto from "crypto";
+import { Octokit } from "octokit";
+import { prisma } from "./prisma";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: GITHUB_APP_CONFIG
+ * Credenciales de la App (null = modo PAT).
+ */
+export type GitHubAppConfig = {
+  appId: string;
+  privateKey: string;
+};
+
+/**
+ * [TYPE] :: INSTALLATION_ACCOUNT
+ * Subconjunto del payload 'installation' que persistimos.
+ */
+export type InstallationAccount = {
+  installationId: number;
+  login: string;
+  type: string; // User | Organization
+  repositorySelection: string; // all | selected
+};
+
+/**
+ * [TYPE] :: INSTALLATION_REPO
+ * Repo accesible por una instalación.
+ */
+export type InstallationRepo = {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+};
+
+type CachedToken = {
+  token: string;
+  expiresAt: number; // epoch ms
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const JWT_ALGO = "RS256";
+const SIGN_ALGO = "RSA-SHA256";
+const JWT_CLOCK_DRIFT_S = 60; // GitHub recomienda iat en el pasado
+const JWT_TTL_S = 9 * 60; // Máximo permitido: 10 minutos
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000; // Renovar 5 min antes
+const DEFAULT_PER_PAGE = 100;
+
+const tokenCache = new Map<number, CachedToken>();
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: GET_GITHUB_APP_CONFIG
+ * Lee las credenciales de la App desde runtime config o process.env.
+ * La clave admite saltos de línea escapados (`\n`) para caber en .env.
+ *
+ * @returns Config de la App o null si no está configurada.
+ */
+export function getGitHubAppConfig(): GitHubAppConfig | null {
+  let runtimeApp: Partial<GitHubAppConfig> = {};
+
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      runtimeApp =
+        (useRuntimeConfig()?.githubApp as Partial<GitHubAppConfig>) || {};
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+
+  const appId = runtimeApp.appId || process.env.NUXT_GITHUB_APP_ID || "";
+  const privateKey = (
+    runtimeApp.privateKey ||
+    process.env.NUXT_GITHUB_APP_PRIVATE_KEY ||
+    ""
+  ).replace(/\\n/g, "\n");
+
+  if (!appId || !privateKey) return null;
+  return { appId, privateKey };
+}
+
+// =====================================================================
+// [SECTION] :: APP AUTH
+// =====================================================================
+
+/**
+ * [AUTH] :: BASE64_URL
+ * Codificación base64url sin padding (RFC 7515).
+ */
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/**
+ * [AUTH] :: CREATE_APP_JWT
+ * Firma el JWT de la App (RS256) con el que se piden tokens de instalación.
+ *
+ * @param config - Credenciales de la App.
+ *
+ * @returns JWT válido ~9 minutos.
+ */
+export function createAppJwt(config: GitHubAppConfig): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: JWT_ALGO, typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({
+      iat: now - JWT_CLOCK_DRIFT_S,
+      exp: now + JWT_TTL_S,
+      iss: config.appId,
+    })
+  );
+
+  const signature = crypto
+    .createSign(SIGN_ALGO)
+    .update(`${header}.${payload}`)
+    .sign(config.privateKey);
+
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+/**
+ * [AUTH] :: GET_INSTALLATION_TOKEN
+ * Token de instalación cacheado en memoria; se renueva al acercarse
+ * a su caducidad (GitHub los emite con 1 hora de vida).
+ *
+ * @param installationId - ID de la instalación.
+ * @param config         - Credenciales de la App.
+ *
+ * @returns Token de acceso de la instalación.
+ */
+export async function getInstallationToken(
+  installationId: number,
+  config: GitHubAppConfig
+): Promise<string> {
+  const cached = tokenCache.get(installationId);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cached.token;
+  }
+
+  const appOctokit = new Octokit({ auth: createAppJwt(config) });
+  const { data } = await appOctokit.request(
+    "POST /app/installations/{installation_id}/access_tokens",
+    { installation_id: installationId }
+  );
+
+  tokenCache.set(installationId, {
+    token: data.token,
+    expiresAt: new Date(data.expires_at).getTime(),
+  });
+  console.log(
+    `[AUTH]  ++ APP_TOKEN     :: installation: ${installationId} | expires: ${data.expires_at}`
+  );
+
+  return data.token;
+}
+
+/**
+ * [AUTH] :: RESOLVE_INSTALLATION_ID
+ * Busca la instalación de la cuenta: primero en BD (registrada por los
+ * eventos 'installation'), si no, preguntando a GitHub.
+ *
+ * @param owner  - Usuario u organización.
+ * @param config - Credenciales de la App.
+ *
+ * @returns ID de la instalación.
+ * @throws  {Error} - Si la App no está instalada en la cuenta.
+ */
+async function resolveInstallationId(
+  owner: string,
+  config: GitHubAppConfig
+): Promise<number> {
+  const stored = await prisma.gitHubInstallation.findFirst({
+    where: {
+      account_login: { equals: owner, mode: "insensitive" },
+      suspended: false,
+    },
+  });
+  if (stored) return stored.id;
+
+  const appOctokit = new Octokit({ auth: createAppJwt(config) });
+  const data = await findAccountInstallation(appOctokit, owner);
+  if (!data) {
+    throw new Error(`GitHub App is not installed on @${owner}`);
+  }
+  if (data.suspended_at) {
+    throw new Error(`GitHub App installation on @${owner} is suspended`);
+  }
+
+  // `account` es un usuario/organización o una enterprise (sin login)
+  const account = data.account && "login" in data.account ? data.account : null;
+  await registerInstallation({
+    installationId: data.id,
+    login: account?.login || owner,
+    type: account?.type || "User",
+    repositorySelection: data.repository_selection,
+  });
+  return data.id;
+}
+
+/**
+ * [AUTH] :: FIND_ACCOUNT_INSTALLATION
+ * Instalación de la App en la cuenta, como usuario y si no como
+ * organización (la ruta de usuarios no encuentra las de organizaciones).
+ *
+ * @returns Instalación o null si la App no está instalada.
+ */
+async function findAccountInstallation(appOctokit: Octokit, owner: string) {
+  try {
+    const { data } = await appOctokit.request(
+      "GET /users/{username}/installation",
+      { username: owner }
+    );
+    return data;
+  } catch (e: any) {
+    if (e.status !== 404) throw e;
+  }
+
+  try {
+    const { data } = await appOctokit.request("GET /orgs/{org}/installation", {
+      org: owner,
+    });
+    return data;
+  } catch (e: any) {
+    if (e.status === 404) return null;
+    throw e;
+  }
+}
+
+// =====================================================================
+// [SECTION] :: CLIENT FACTORY
+// =====================================================================
+
+/**
+ * [FACTORY] :: GET_OCTOKIT_FOR_OWNER
+ * Cliente autenticado para leer repos de la cuenta. En modo App usa el
+ * token de su instalación; en modo PAT, GITHUB_SEED_TOKEN.
+ *
+ * @param owner - Usuario u organización dueña del repo.
+ *
+ * @returns Instancia de Octokit.
+ */
+export async function getOctokitForOwner(owner: string): Promise<Octokit> {
+  const config = getGitHubAppConfig();
+  if (!config) {
+    return new Octokit({ auth: process.env.GITHUB_SEED_TOKEN });
+  }
+
+  const installationId = await resolveInstallationId(owner, config);
+  const token = await getInstallationToken(installationId, config);
+  return new Octokit({ auth: token });
+}
+
+// =====================================================================
+// [SECTION] :: INSTALLATION REGISTRY
+// =====================================================================
+
+/**
+ * [PERSIST] :: REGISTER_INSTALLATION
+ * Alta o actualización de una instalación de la App. No toca `suspended`:
+ * solo lo cambia SET_INSTALLATION_SUSPENDED (un upsert posterior no debe
+ * borrar una suspensión real).
+ */
+export async function registerInstallation(
+  account: InstallationAccount
+): Promise<void> {
+  const data = {
+    account_login: account.login,
+    account_type: account.type,
+    repository_selection: account.repositorySelection,
+  };
+
+  await prisma.gitHubInstallation.upsert({
+    where: { id: account.installationId },
+    update: data,
+    create: { id: account.installationId, ...data },
+  });
+  console.log(
+    `[DB]    ++ INSTALLATION  :: id: ${account.installationId} | account: @${account.login}`
+  );
+}
+
+/**
+ * [PERSIST] :: SET_INSTALLATION_SUSPENDED
+ * Marca una instalación como suspendida (o reactivada).
+ */
+export async function setInstallationSuspended(
+  installationId: number,
+  suspended: boolean
+): Promise<void> {
+  await prisma.gitHubInstallation.updateMany({
+    where: { id: installationId },
+    data: { suspended },
+  });
+  tokenCache.delete(installationId);
+}
+
+/**
+ * [DELETE] :: REMOVE_INSTALLATION
+ * Borra la instalación y sus repos registrados (los proyectos se quedan).
+ */
+export async function removeInstallation(
+  installationId: number
+): Promise<void> {
+  await prisma.trackedRepo.deleteMany({
+    where: { installation_id: installationId },
+  });
+  await prisma.gitHubInstallation.deleteMany({ where: { id: installationId } });
+  tokenCache.delete(installationId);
+  console.log(`[DB]    -- INSTALLATION  :: id: ${installationId}`);
+}
+
+/**
+ * [PERSIST] :: TRACK_REPOS
+ * Registra los repos a los que la instalación da acceso.
+ */
+export async function trackRepos(
+  installationId: number,
+  repos: InstallationRepo[]
+): Promise<void> {
+  for (const repo of repos) {
+    const [owner = "", name = repo.name] = repo.full_name.split("/");
+    const data = {
+      installation_id: installationId,
+      owner,
+      name,
+      private: repo.private,
+    };
+    await prisma.trackedRepo.upsert({
+      where: { id: repo.id },
+      update: data,
+      create: { id: repo.id, ...data },
+    });
+  }
+  console.log(
+    `[DB]    ++ TRACKED       :: installation: ${installationId} | repos: ${repos.length}`
+  );
+}
+
+/**
+ * [DELETE] :: UNTRACK_REPOS
+ * Deja de seguir repos retirados de la instalación.
+ */
+export async function untrackRepos(repoIds: number[]): Promise<void> {
+  if (repoIds.length === 0) return;
+  await prisma.trackedRepo.deleteMany({ where: { id: { in: repoIds } } });
+  console.log(`[DB]    -- UNTRACKED     :: repos: ${repoIds.length}`);
+}
+
+/**
+ * [FETCH] :: GET_DEFAULT_BRANCH
+ * Rama por defecto del repo según GitHub. Nunca lanza.
+ *
+ * @returns Nombre de la rama o null si no se pudo consultar.
+ */
+export async function getDefaultBranch(
+  owner: string,
+  repo: string
+): Promise<string | null> {
+  try {
+    const octokit = await getOctokitForOwner(owner);
+    const { data } = await octokit.request("GET /repos/{owner}/{repo}", {
+      owner,
+      repo,
+    });
+    return data.default_branch;
+  } catch (err: any) {
+    console.warn(
+      `[WARN]  :: BRANCH_LOOKUP :: ${owner}/${repo} | ${err.message}`
+    );
+    return null;
+  }
+}
+
+/**
+ * [FETCH] :: LIST_INSTALLATION_REPOS
+ * Todos los repos accesibles por la instalación (incluidos privados).
+ *
+ * @param octokit - Cliente autenticado con el token de la instalación.
+ *
+ * @returns Repos paginados.
+ */
+export async function listInstallationRepos(octokit: Octokit) {
+  return octokit.paginate("GET /installation/repositories", {
+    per_page: DEFAULT_PER_PAGE,
+  });
+}
@@ -0,0 +1,418 @@
+/**
+ * [MODULE] :: HEURISTIC_EXTRACTOR
+ * ----------------------------------------------------------------------
+ * Extractor basado en reglas que construye un Project a partir del README
+ * sin llamar a ningún LLM. Fallback cuando la IA cae o no hay presupuesto.
+ *
+ * @module    server/utils/heuristic
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { ProjectSchema, type Project } from "../../shared/types";
+import {
+  DEFAULT_CONTENT_LOCALE,
+  fillMissingLocales,
+} from "../../shared/locales";
+import { TECH_ALIAS_INDEX } from "../../shared/techs";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+/** Versión de las reglas (incrementar al cambiarlas para forzar re-extracción) */
+export const HEURISTIC_VERSION = "heuristic-v1";
+
+const DEFAULT_BRANCH = "main";
+const RAW_GITHUB_BASE = "https://raw.githubusercontent.com";
+const UNKNOWN_TECH = "Unknown";
+
+const MAX_TAGLINE_CHARS = 40; // Mismo límite que pide el prompt IA
+const MAX_DESCRIPTION_CHARS = 200;
+const ELLIPSIS = "…";
+
+/** Hosts que nunca cuentan como demo (repos, badges, CDNs de imágenes) */
+const NON_DEMO_HOSTS = [
+  "github.com",
+  "raw.githubusercontent.com",
+  "user-images.githubusercontent.com",
+  "githubusercontent.com",
+  "img.shields.io",
+  "shields.io",
+  "badgen.net",
+  "npmjs.com",
+  "www.npmjs.com",
+];
+
+/** Marcadores que delatan una imagen de badge y no un screenshot */
+const BADGE_MARKERS = ["shields.io", "badgen.net", "badge", "/workflows/"];
+
+const IMAGE_EXTENSION_REGEX = /\.(png|jpe?g|gif|webp|avif|svg)(\?.*)?$/i;
+
+const H1_MARKDOWN_REGEX = /^#\s+(.+?)\s*#*\s*$/m;
+const H1_HTML_REGEX = /<h1[^>]*>([\s\S]*?)<\/h1>/i;
+const MD_IMAGE_REGEX = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const HTML_IMAGE_REGEX = /<img[^>]*\ssrc=["']([^"']+)["'][^>]*>/gi;
+const MD_LINK_REGEX =
+  /(?<!!)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const HTML_LINK_REGEX = /<a[^>]*\shref=["']([^"']+)["'][^>]*>/gi;
+const BARE_URL_REGEX = /(?<![("'=])\bhttps?:\/\/[^\s)<>"']+/g;
+const HTML_COMMENT_REGEX = /<!--[\s\S]*?-->/g;
+const CODE_FENCE_REGEX = /```[\s\S]*?```/g;
+const FRONT_MATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+
+/**
+ * Prioridad para elegir primary_tech. Regla: Framework > Language.
+ */
+const PRIMARY_TECH_PRIORITY = [
+  "Nuxt",
+  "Next.js",
+  "Astro",
+  "SvelteKit",
+  "Remix",
+  "Angular",
+  "Vue",
+  "React",
+  "Svelte",
+  "Solid",
+  "NestJS",
+  "Express",
+  "Three.js",
+  "TypeScript",
+  "JavaScript",
+  "Python",
+];
+
+/** Alias "ambiguos" que solo cuentan dentro de badges o paquetes, no en prosa */
+const PROSE_EXCLUDED_ALIASES = new Set([
+  "next",
+  "node",
+  "ts",
+  "js",
+  "three",
+  "express",
+  "solid",
+]);
+
+// =====================================================================
+// [SECTION] :: TEXT HELPERS
+// =====================================================================
+
+/**
+ * [CLEAN] :: STRIP_INLINE_MARKUP
+ * Elimina markdown/HTML inline dejando solo texto plano.
+ *
+ * @param text - Fragmento markdown.
+ *
+ * @returns Texto plano colapsado en una línea.
+ */
+function stripInlineMarkup(text: string): string {
+  return text
+    .replace(MD_IMAGE_REGEX, "")
+    .replace(MD_LINK_REGEX, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[*_`~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * [CLEAN] :: TRUNCATE
+ * Recorta respetando palabras completas.
+ *
+ * @param text     - Texto a recortar.
+ * @param maxChars - Longitud máxima (incluida la elipsis).
+ *
+ * @returns Texto recortado.
+ */
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars - ELLIPSIS.length);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trim()}${ELLIPSIS}`;
+}
+
+/**
+ * [PARSE] :: PARSE_REPO_URL
+ * Extrae owner/repo de una URL de GitHub.
+ *
+ * @param repoUrl - URL del repositorio.
+ *
+ * @returns Par owner/repo (vacíos si no se puede inferir).
+ */
+function parseRepoUrl(repoUrl: string): { owner: string; repo: string } {
+  const parts = repoUrl
+    .replace(/\.git$/, "")
+    .split("/")
+    .filter(Boolean);
+  return {
+    owner: parts[parts.length - 2] || "",
+    repo: parts[parts.length - 1] || "",
+  };
+}
+
+/**
+ * [PARSE] :: GET_HOST
+ * Hostname de una URL o null si no es absoluta.
+ */
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * [CHECK] :: IS_BADGE_URL
+ * Detecta imágenes de badges (shields.io, CI status...).
+ */
+function isBadgeUrl(url: string): boolean {
+  const lower = url.toLowerCase();
+  return BADGE_MARKERS.some((marker) => lower.includes(marker));
+}
+
+// =====================================================================
+// [SECTION] :: FIELD EXTRACTORS
+// =====================================================================
+
+/**
+ * [EXTRACT] :: EXTRACT_TITLE
+ * Primer H1 (markdown o HTML).
+ *
+ * @param readme - README saneado.
+ *
+ * @returns Título o null si no hay H1.
+ */
+function extractTitle(readme: string): string | null {
+  const heading =
+    readme.match(H1_MARKDOWN_REGEX)?.[1] ?? readme.match(H1_HTML_REGEX)?.[1];
+  if (!heading) return null;
+  const title = stripInlineMarkup(heading);
+  return title || null;
+}
+
+/**
+ * [EXTRACT] :: EXTRACT_FIRST_PARAGRAPH
+ * Primer bloque de prosa: ignora headings, badges, listas, tablas y citas.
+ *
+ * @param readme - README saneado.
+ *
+ * @returns Párrafo en texto plano o null.
+ */
+function extractFirstParagraph(readme: string): string | null {
+  const blocks = readme.split(/\r?\n\s*\r?\n/);
+
+  for (const block of blocks) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    if (
+      /^(#|\||[-*+]\s|\d+\.\s|>|<h\d|<img|<p align|!\[|\[!\[|={3,}|-{3,})/i.test(
+        trimmed
+      )
+    ) {
+      continue;
+    }
+
+    const text = stripInlineMarkup(trimmed);
+    // Un bloque sin palabras reales (solo badges/enlaces vacíos) no cuenta
+    if (text.split(" ").length < 3) continue;
+
+    return text;
+  }
+
+  return null;
+}
+
+/**
+ * [EXTRACT] :: EXTRACT_IMAGE
+ * Primera imagen que no sea badge. Convierte rutas relativas a raw GitHub.
+ *
+ * @param readme  - README saneado.
+ * @param repoUrl - URL del repositorio.
+ * @param branch  - Rama para resolver rutas relativas.
+ *
+ * @returns URL absoluta o null.
+ */
+function extractImage(
+  readme: string,
+  repoUrl: string,
+  branch: string
+): string | null {
+  const candidates: { index: number; url: string }[] = [];
+
+  for (const match of readme.matchAll(MD_IMAGE_REGEX)) {
+    candidates.push({ index: match.index ?? 0, url: match[2]! });
+  }
+  for (const match of readme.matchAll(HTML_IMAGE_REGEX)) {
+    candidates.push({ index: match.index ?? 0, url: match[1]! });
+  }
+
+  candidates.sort((a, b) => a.index - b.index);
+  const image = candidates.find(({ url }) => !isBadgeUrl(url));
+  if (!image) return null;
+
+  if (getHost(image.url)) return image.url;
+
+  const { owner, repo } = parseRepoUrl(repoUrl);
+  if (!owner || !repo) return null;
+
+  const path = image.url.replace(/^\.?\//, "");
+  return `${RAW_GITHUB_BASE}/${owner}/${repo}/${branch}/${path}`;
+}
+
+/**
+ * [EXTRACT] :: EXTRACT_DEMO_URL
+ * Primer enlace absoluto que no apunte a GitHub, badges ni imágenes.
+ *
+ * @param readme - README saneado.
+ *
+ * @returns URL de demo o null.
+ */
+function extractDemoUrl(readme: string): string | null {
+  // Los enlaces que envuelven badges ([![..](..)](link)) no son demos
+  const withoutBadges = readme.replace(
+    /\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g,
+    ""
+  );
+
+  const candidates: { index: number; url: string }[] = [];
+  for (const match of withoutBadges.matchAll(MD_LINK_REGEX)) {
+    candidates.push({ index: match.index ?? 0, url: match[2]! });
+  }
+  for (const match of withoutBadges.matchAll(HTML_LINK_REGEX)) {
+    candidates.push({ index: match.index ?? 0, url: match[1]! });
+  }
+  for (const match of withoutBadges.matchAll(BARE_URL_REGEX)) {
+    candidates.push({ index: match.index ?? 0, url: match[0] });
+  }
+
+  candidates.sort((a, b) => a.index - b.index);
+
+  const demo = candidates.find(({ url }) => {
+    const host = getHost(url);
+    if (!host) return false;
+    if (NON_DEMO_HOSTS.some((h) => host === h || host.endsWith(`.${h}`))) {
+      return false;
+    }
+    return !IMAGE_EXTENSION_REGEX.test(url) && !isBadgeUrl(url);
+  });
+
+  return demo?.url ?? null;
+}
+
+/**
+ * [EXTRACT] :: EXTRACT_TECH_STACK
+ * Detecta tecnologías a partir de badges, paquetes instalados y menciones.
+ *
+ * @param readme - README saneado.
+ *
+ * @returns Lista única de nombres canónicos en orden de aparición.
+ */
+function extractTechStack(readme: string): string[] {
+  const found: string[] = [];
+  const add = (raw: string, allowAmbiguous = true) => {
+    const alias = raw.trim().toLowerCase();
+    if (!allowAmbiguous && PROSE_EXCLUDED_ALIASES.has(alias)) return;
+    const name = TECH_ALIAS_INDEX.get(alias);
+    if (name && !found.includes(name)) found.push(name);
+  };
+
+  // 1. Badges: alt text, etiqueta de shields.io y parámetro logo=
+  for (const match of readme.matchAll(MD_IMAGE_REGEX)) {
+    const url = match[2]!;
+    if (!isBadgeUrl(url)) continue;
+    add(match[1]!);
+    const label = url.match(/\/badge\/([^-/?]+)/)?.[1];
+    if (label) add(decodeURIComponent(label).replace(/_/g, " "));
+    const logo = url.match(/[?&]logo=([^&]+)/)?.[1];
+    if (logo) add(decodeURIComponent(logo).replace(/dot/g, "."));
+  }
+
+  // 2. Paquetes: npm/pnpm/yarn/bun install|add <pkg...>
+  const installRegex =
+    /\b(?:npm|pnpm|yarn|bun)\s+(?:i|install|add)\s+([^\n`]+)/g;
+  for (const match of readme.matchAll(installRegex)) {
+    for (const pkg of match[1]!.split(/\s+/)) {
+      if (!pkg || pkg.startsWith("-")) continue;
+      // '@nuxt/image' -> '@nuxt', 'gsap@3' -> 'gsap'
+      const bare = pkg.replace(/(.)@.*$/, "$1");
+      add(bare);
+      if (bare.startsWith("@")) add(bare.split("/")[0]!);
+    }
+  }
+
+  // 3. Menciones en prosa (fuera de bloques de código)
+  const prose = readme.replace(CODE_FENCE_REGEX, "");
+  for (const alias of TECH_ALIAS_INDEX.keys()) {
+    if (PROSE_EXCLUDED_ALIASES.has(alias) || alias.startsWith("@")) continue;
+    const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    if (new RegExp(`(^|[^\\w.@/-])${escaped}(?![\\w-])`, "i").test(prose)) {
+      add(alias, false);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * [PICK] :: PICK_PRIMARY_TECH
+ * Framework > Language según PRIMARY_TECH_PRIORITY.
+ */
+function pickPrimaryTech(stack: string[]): string {
+  return (
+    PRIMARY_TECH_PRIORITY.find((tech) => stack.includes(tech)) ??
+    stack[0] ??
+    UNKNOWN_TECH
+  );
+}
+
+// =====================================================================
+// [SECTION] :: PUBLIC API
+// =====================================================================
+
+/**
+ * [EXTRACT] :: EXTRACT_PROJECT_DATA_HEURISTIC
+ * Construye un Project válido usando solo reglas sobre el README.
+ * Los textos localizados repiten el mismo contenido (sin traducción).
+ *
+ * @param readmeContent - El texto completo del archivo README.md.
+ * @param repoUrl       - URL del repositorio (id, repo_url, rutas relativas).
+ * @param branch        - (Optional) Rama para resolver imágenes relativas.
+ *
+ * @returns Objeto Project validado por Zod.
+ * @throws  {ZodError} - Si el resultado no cumple el esquema.
+ */
+export function extractProjectDataHeuristic(
+  readmeContent: string,
+  repoUrl: string,
+  branch: string = DEFAULT_BRANCH
+): Project {
+  const readme = readmeContent
+    .replace(FRONT_MATTER_REGEX, "")
+    .replace(HTML_COMMENT_REGEX, "");
+
+  const { repo } = parseRepoUrl(repoUrl);
+  const title = extractTitle(readme) || repo;
+  const paragraph = extractFirstParagraph(readme) || title;
+  const techStack = extractTechStack(readme);
+
+  const tagline = truncate(
+    paragraph.split(/(?<=[.!?])\s/)[0]!,
+    MAX_TAGLINE_CHARS
+  );
+  const description = truncate(paragraph, MAX_DESCRIPTION_CHARS);
+
+  return ProjectSchema.parse({
+    id: repo,
+    title,
+    tagline: fillMissingLocales({ [DEFAULT_CONTENT_LOCALE]: tagline }),
+    description: fillMissingLocales({ [DEFAULT_CONTENT_LOCALE]: description }),
+    tech_stack: techStack,
+    primary_tech: pickPrimaryTech(techStack),
+    img_url: extractImage(readme, repoUrl, branch),
+    repo_url: repoUrl,
+    demo_url: extractDemoUrl(readme),
+    origin: null,
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * [MODULE] :: IMAGE_PIPELINE
+ * ----------------------------------------------------------------------
+ * Descarga la imagen del proyecto y la espeja en el almacenamiento de
+ * media: variantes WebP redimensionadas, dimensiones, color dominante
+ * y un placeholder LQIP. Así el frontend no depende de GitHub ni
+ * muestra spinners mientras carga la captura.
+ *
+ * Claves direccionadas por contenido (hash de la imagen original):
+ * re-ingestar la misma imagen no vuelve a generar variantes.
+ *
+ * @module    server/utils/images
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import crypto from "crypto";
+import sharp from "sharp";
+import type { ProjectImage } from "../../shared/types";
+import { getMediaStorage, mediaUrl } from "./storage";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const VARIANT_WIDTHS = [480, 960, 1600]; // Fila, detalle, pantallas grandes
+const VARIANT_QUALITY = 80;
+const VARIANT_FORMAT = "webp";
+
+const LQIP_WIDTH = 16;
+const LQIP_BLUR = 1;
+const LQIP_QUALITY = 40;
+
+const DOWNLOAD_TIMEOUT_MS = 15 * 1000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024; // 10 MB
+const HASH_ALGO = "sha256";
+const HASH_LENGTH = 16;
+
+const KEY_PREFIX = "projects";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: IS_IMAGE_PIPELINE_ENABLED
+ * NUXT_IMAGE_PIPELINE=false mantiene el hotlink a la URL original.
+ */
+export function isImagePipelineEnabled(): boolean {
+  return process.env.NUXT_IMAGE_PIPELINE !== "false";
+}
+
+// =====================================================================
+// [SECTION] :: DOWNLOAD
+// =====================================================================
+
+/**
+ * [HTTP] :: DOWNLOAD_IMAGE
+ * Descarga con timeout y límite de tamaño.
+ *
+ * @throws {Error} - Si la respuesta no es OK o excede MAX_IMAGE_BYTES.
+ */
+async function downloadImage(url: string): Promise<Buffer> {
+  const res = await fetch(url, {
+    redirect: "follow",
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`Image download failed: HTTP ${res.status}`);
+  }
+
+  const declared = Number(res.headers.get("content-length") || 0);
+  if (declared > MAX_IMAGE_BYTES) {
+    await res.body?.cancel();
+    throw new Error(`Image too large: ${declared} bytes`);
+  }
+
+  const buffer = Buffer.from(await res.arrayBuffer());
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large: ${buffer.length} bytes`);
+  }
+  return buffer;
+}
+
+// =====================================================================
+// [SECTION] :: PROCESSING
+// =====================================================================
+
+/**
+ * [UTIL] :: TO_HEX
+ * Canal RGB (0-255) a hex de 2 dígitos.
+ */
+function toHex(channel: number): string {
+  return Math.round(channel).toString(16).padStart(2, "0");
+}
+
+/**
+ * [PROCESS] :: PROCESS_PROJECT_IMAGE
+ * Descarga, procesa y guarda la imagen del proyecto.
+ *
+ * @param projectId - ID del proyecto (prefijo de las claves).
+ * @param sourceUrl - URL verificada de la imagen original.
+ *
+ * @returns Metadatos de la imagen espejada.
+ * @throws  {Error} - Si la descarga o el procesado fallan.
+ */
+export async function processProjectImage(
+  projectId: string,
+  sourceUrl: string
+): Promise<ProjectImage> {
+  const input = await downloadImage(sourceUrl);
+  const hash = crypto
+    .createHash(HASH_ALGO)
+    .update(input)
+    .digest("hex")
+    .slice(0, HASH_LENGTH);
+
+  // autoOrient: las dimensiones deben ser las que verá el navegador
+  const oriented = () => sharp(input, { animated: false }).autoOrient();
+  const { width = 0, height = 0 } = await oriented().metadata();
+  if (!width || !height) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  const { dominant } = await oriented().stats();
+  const dominantColor = `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`;
+
+  const lqipBuffer = await oriented()
+    .resize({ width: LQIP_WIDTH })
+    .blur(LQIP_BLUR)
+    .webp({ quality: LQIP_QUALITY })
+    .toBuffer();
+  const lqip = `data:image/${VARIANT_FORMAT};base64,${lqipBuffer.toString("base64")}`;
+
+  // Variantes sin ampliar: anchos menores que el original + el original
+  const widths = [
+    ...new Set([
+      ...VARIANT_WIDTHS.filter((w) => w < width),
+      Math.min(width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]!),
+    ]),
+  ];
+
+  const storage = getMediaStorage();
+  const variants: ProjectImage["variants"] = [];
+
+  for (const variantWidth of widths) {
+    const key = `${KEY_PREFIX}/${projectId}/${hash}-${variantWidth}.${VARIANT_FORMAT}`;
+    const variantHeight = Math.round((height * variantWidth) / width);
+
+    if (!(await storage.hasItem(key))) {
+      const data = await oriented()
+        .resize({ width: variantWidth, withoutEnlargement: true })
+        .webp({ quality: VARIANT_QUALITY })
+        .toBuffer();
+      await storage.setItemRaw(key, data);
+    }
+
+    variants.push({
+      src: mediaUrl(key),
+      width: variantWidth,
+      height: variantHeight,
+    });
+  }
+
+  const largest = variants[variants.length - 1]!;
+  console.log(
+    `[MEDIA] ++ MIRRORED      :: id: ${projectId} | ${width}x${height} | variants: ${variants.length} | color: ${dominantColor}`
+  );
+
+  return {
+    src: largest.src,
+    width,
+    height,
+    dominant_color: dominantColor,
+    lqip,
+    source_url: sourceUrl,
+    variants,
+  };
+}
+
+/**
+ * [PROCESS] :: MIRROR_PROJECT_IMAGE
+ * Variante tolerante de PROCESS_PROJECT_IMAGE para la ingesta: nunca
+ * lanza. Un fallo devuelve `undefined` (distinto de "sin imagen") para
+ * que quien llama conserve el espejo anterior.
+ *
+ * @returns Metadatos, null si no hay imagen o está desactivado, o
+ *          undefined si el espejo falló.
+ */
+export async function mirrorProjectImage(
+  projectId: string,
+  sourceUrl: string | null | undefined
+): Promise<ProjectImage | null | undefined> {
+  if (!sourceUrl || !isImagePipelineEnabled()) return null;
+
+  try {
+    return await processProjectImage(projectId, sourceUrl);
+  } catch (err: any) {
+    console.warn(
+      `[WARN]  :: MIRROR_FAIL   :: id: ${projectId} | ${err.message}`
+    );
+    return undefined;
+  }
+}
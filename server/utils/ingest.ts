@@ -1,23 +1,107 @@
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
 import { Octokit } from "octokit";
-import { type Project } from "../../shared/types";
-import { extractProjectData } from "./ai";
-import { prisma } from "./prisma";
+import { ZodError } from "zod";
+import {
+  type Project,
+  type ProjectImage,
+  type ProjectManifest,
+} from "../../shared/types";
+import { canonicalTech, canonicalTechStack } from "../../shared/techs";
+import { extractProject, getExtractionMode, getExtractorVersion } from "./ai";
+import { isAssetVerificationEnabled, verifyProjectAssets } from "./assets";
+import { mirrorProjectImage } from "./images";
+import {
+  getCuratedFields,
+  normalizeLockedFields,
+  omitLockedFields,
+} from "./locks";
+import { fetchManifest, manifestToProject, mergeManifest } from "./manifest";
+import { jsonColumn, prisma } from "./prisma";
+import { diffProject, toContentColumns, type ProjectContent } from "./content";
+import { getReviewPolicy, initialStatus, shouldHoldChanges } from "./review";
+import { recordRevision, type RevisionMeta } from "./revisions";
+import { linkProjectCourse } from "./courses";
 
 // =====================================================================
 // [SECTION] :: TYPES
 // =====================================================================
 
+/**
+ * [TYPE] :: INGEST_FINGERPRINT
+ * Huella del contenido extraído (README + manifest) y del extractor usado.
+ */
+export type IngestFingerprint = {
+  contentHash: string;
+  extractorVersion: string;
+};
+
 /**
  * [TYPE] :: INGEST_RESULT
  * Resultado de la ingesta con acción a tomar.
+ * 'unchanged' = contenido y extractor idénticos a lo guardado (no-op).
  */
 export type IngestResult = {
-  action: "save" | "delete" | "skip";
+  action: "save" | "delete" | "skip" | "unchanged";
   project: Project | null;
   projectId: string;
   reason?: string;
+  fingerprint?: IngestFingerprint;
+  branch?: string; // Rama realmente usada (tras fallback main -> master)
+  durationMs?: number;
+  validationErrors?: ZodError["issues"];
+  retryable?: boolean; // Fallo transitorio (red, GitHub, LLM caído o timeout): reintentar tiene sentido
 };
 
+// =====================================================================
+// [SECTION] :: CONTENT FINGERPRINT
+// =====================================================================
+
+const HASH_ALGO = "sha256";
+
+/**
+ * [UTIL] :: STABLE_STRINGIFY
+ * JSON con claves ordenadas recursivamente (mismo objeto => mismo string).
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * [HASH] :: COMPUTE_CONTENT_HASH
+ * Hash del README (whitespace normalizado) + manifest (claves ordenadas).
+ * Ediciones de solo espacios o saltos de línea producen el mismo hash.
+ *
+ * @param readmeContent - Contenido del README.
+ * @param manifest      - Manifest validado o null.
+ *
+ * @returns Hash hex.
+ */
+export function computeContentHash(
+  readmeContent: string,
+  manifest: ProjectManifest | null
+): string {
+  const normalizedReadme = readmeContent.replace(/\s+/g, " ").trim();
+  const normalizedManifest = manifest ? stableStringify(manifest) : "";
+
+  return crypto
+    .createHash(HASH_ALGO)
+    .update(normalizedReadme)
+    .update("\0")
+    .update(normalizedManifest)
+    .digest("hex");
+}
+
 // =====================================================================
 // [SECTION] :: PROJECT INGESTION
 // =====================================================================
@@ -42,6 +126,7 @@ export type IngestResult = {
  * @param octokit    - Instancia del cliente GitHub.
  * @param branch     - (Optional) Rama objetivo (default: 'main').
  * @param strictMode - (Optional) Si es true, requiere demo e imagen.
+ * @param force      - (Optional) Re-extrae aunque el contenido no cambie.
  *
  * @returns IngestResult con la acción a tomar y el proyecto procesado.
  */
@@ -57,7 +142,63 @@ export async function ingestProject(
   repo: string,
   octokit: Octokit,
   branch: string = DEFAULT_BRANCH,
-  strictModeOverride?: boolean
+  strictModeOverride?: boolean,
+  force: boolean = false
+): Promise<IngestResult> {
+  const startedAt = Date.now();
+  const result = await runIngestion(
+    owner,
+    repo,
+    octokit,
+    branch,
+    strictModeOverride,
+    force
+  );
+
+  return {
+    ...result,
+    branch: result.branch ?? branch,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * [DB] :: KEEP_PREVIOUS_IMAGE
+ * Espejo fallido: conserva la imagen guardada y la img_url de la que
+ * salió hasta que un espejo funcione. Sin espejo previo se sirve la
+ * img_url nueva tal cual.
+ */
+async function keepPreviousImage(
+  projectId: string,
+  project: Project
+): Promise<Project> {
+  const previous = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { img_url: true, image: true },
+  });
+  if (!previous?.image) return { ...project, image: null };
+
+  console.log(
+    `[MEDIA] :: KEPT_PREVIOUS :: id: ${projectId} | img_url: ${previous.img_url}`
+  );
+  return {
+    ...project,
+    img_url: previous.img_url,
+    image: previous.image as ProjectImage,
+  };
+}
+
+/**
+ * [FETCH] :: RUN_INGESTION
+ * Cuerpo de INGEST_PROJECT (sin métricas). Mismos parámetros.
+ */
+async function runIngestion(
+  owner: string,
+  repo: string,
+  octokit: Octokit,
+  branch: string,
+  strictModeOverride?: boolean,
+  force: boolean = false
 ): Promise<IngestResult> {
   const projectId = repo; // Project ID is the repo name
 
@@ -88,7 +229,14 @@ export async function ingestProject(
         console.warn(
           `[WARN]  :: BRANCH_404    :: '${DEFAULT_BRANCH}' not found. Retrying with '${FALLBACK_BRANCH}'`
         );
-        return ingestProject(owner, repo, octokit, FALLBACK_BRANCH, strictMode);
+        return ingestProject(
+          owner,
+          repo,
+          octokit,
+          FALLBACK_BRANCH,
+          strictMode,
+          force
+        );
       }
 
       if (e.status === 404) {
@@ -117,36 +265,161 @@ export async function ingestProject(
       };
     }
 
-    if (!readmeContent || readmeContent.length < MIN_README_LENGTH) {
-      console.warn(
-        `[WARN]  :: SHORT_README  :: size: ${readmeContent.length} chars (min: 50). Skipping.`
+    // 3. Manifest in-repo (tinyshow.json / tinyshow.yaml / front-matter)
+    const htmlUrl = `${GITHUB_BASE_URL}/${owner}/${repo}`;
+    const manifestResult = await fetchManifest(
+      owner,
+      repo,
+      octokit,
+      branch,
+      readmeContent
+    );
+    const manifest = manifestResult?.manifest ?? null;
+
+    if (manifest?.hidden) {
+      console.log(
+        `[DATA]  :: HIDDEN_MARKER :: Manifest (${manifestResult!.source}) sets hidden -> Will DELETE if exists`
       );
       return {
-        action: "skip",
+        action: "delete",
         project: null,
         projectId,
-        reason: "README too short",
+        reason: "Project marked as hidden via manifest",
       };
     }
 
-    // 3. Extracción IA
-    const htmlUrl = `${GITHUB_BASE_URL}/${owner}/${repo}`;
-    console.log(
-      `[ANLZ]  >> README.md     :: size: ${readmeContent.length} chars | status: AI_PROCESSING`
-    );
+    // 4. Short-circuit si README/manifest/extractor no cambiaron
+    const mode = getExtractionMode();
+    const fingerprint: IngestFingerprint = {
+      contentHash: computeContentHash(readmeContent, manifest),
+      extractorVersion: getExtractorVersion(mode),
+    };
+
+    if (!force) {
+      const existing = await prisma.project.findFirst({
+        where: { OR: [{ id: projectId }, { repo_url: htmlUrl }] },
+        select: {
+          id: true,
+          content_hash: true,
+          extractor_version: true,
+          demo_url: true,
+          img_url: true,
+        },
+      });
+
+      const sameContent =
+        existing?.content_hash === fingerprint.contentHash &&
+        existing?.extractor_version === fingerprint.extractorVersion;
+      // Un proyecto guardado en modo laxo debe re-evaluarse en modo estricto
+      const passesStrict =
+        !strictMode || (!!existing?.demo_url && !!existing?.img_url);
+
+      if (existing && sameContent && passesStrict) {
+        console.log(
+          `[DATA]  :: UNCHANGED     :: id: ${existing.id} | hash: ${fingerprint.contentHash.slice(0, 12)} -> No-op`
+        );
+        return {
+          action: "unchanged",
+          project: null,
+          projectId: existing.id,
+          reason: "README and manifest unchanged since last extraction",
+          fingerprint,
+        };
+      }
+    }
+
+    // 5. Extracción (manifest completo => sin LLM)
+    let projectData = manifest
+      ? manifestToProject(manifest, projectId, htmlUrl)
+      : null;
+
+    if (projectData) {
+      console.log(
+        `[ANLZ]  :: MANIFEST      :: source: ${manifestResult!.source} | status: COMPLETE (LLM skipped)`
+      );
+    } else {
+      if (!readmeContent || readmeContent.length < MIN_README_LENGTH) {
+        console.warn(
+          `[WARN]  :: SHORT_README  :: size: ${readmeContent.length} chars (min: 50). Skipping.`
+        );
+        return {
+          action: "skip",
+          project: null,
+          projectId,
+          reason: "README too short",
+        };
+      }
+
+      console.log(
+        `[ANLZ]  >> README.md     :: size: ${readmeContent.length} chars | mode: ${mode} | status: PROCESSING`
+      );
+
+      const outcome = await extractProject(
+        readmeContent,
+        htmlUrl,
+        branch,
+        mode
+      );
+      projectData = outcome.project;
+      fingerprint.extractorVersion = outcome.extractorVersion;
 
-    const projectData = await extractProjectData(readmeContent, htmlUrl);
+      if (manifest) {
+        console.log(
+          `[ANLZ]  :: MANIFEST      :: source: ${manifestResult!.source} | status: MERGED`
+        );
+        projectData = mergeManifest(projectData, manifest);
+      }
+    }
 
-    // 4. Filtros de Calidad
+    // 6. Verificar assets (URLs inventadas o rotas => null con motivo;
+    //    un fallo temporal conserva la URL y nunca lleva a borrar)
+    const brokenAssets: string[] = [];
+    if (isAssetVerificationEnabled()) {
+      const report = await verifyProjectAssets(projectData, {
+        owner,
+        repo,
+        branch,
+        readme: readmeContent,
+      });
+      projectData = {
+        ...projectData,
+        img_url: report.imgUrl,
+        demo_url: report.demoUrl,
+      };
+      brokenAssets.push(...report.reasons);
+      for (const reason of report.reasons) {
+        console.warn(`[ASSET] :: BROKEN        :: ${reason}`);
+      }
+      for (const reason of report.unverified) {
+        console.warn(`[ASSET] :: UNVERIFIED    :: ${reason} (kept)`);
+      }
+    }
+
+    // 6b. Campos curados a mano prevalecen sobre la extracción
+    const curated = await getCuratedFields(projectId);
+    if (curated.fields.length > 0) {
+      projectData = { ...projectData, ...curated.values };
+      console.log(
+        `[DATA]  :: CURATED       :: locked: ${curated.fields.join(", ")} (kept from DB)`
+      );
+    }
+
+    // 7. Filtros de Calidad
     if (!projectData.demo_url || !projectData.img_url) {
       const missing = [];
       if (!projectData.demo_url) missing.push("demo_url");
       if (!projectData.img_url) missing.push("img_url");
+      // Motivo concreto si la URL existía pero no pasó la verificación
+      const details = missing.map(
+        (field) =>
+          brokenAssets.find((reason) => reason.startsWith(`${field}:`)) ??
+          `${field}: missing`
+      );
 
       if (strictMode) {
         console.warn(
-          `[DATA]  :: SKIP_STRICT   :: Missing assets: ${missing.join(
-            ", "
+          `[DATA]  :: SKIP_STRICT   :: Missing assets: ${details.join(
+            "; "
           )} -> Will DELETE if exists`
         );
         // En modo estricto, señalar borrado para eliminar proyectos existentes
@@ -154,12 +427,12 @@ export async function ingestProject(
           action: "delete",
           project: null,
           projectId,
-          reason: `Missing required assets: ${missing.join(", ")}`,
+          reason: `Missing required assets: ${details.join("; ")}`,
         };
       } else {
         console.warn(
-          `[DATA]  :: WARN_ALLOW    :: Missing assets: ${missing.join(
-            ", "
+          `[DATA]  :: WARN_ALLOW    :: Missing assets: ${details.join(
+            "; "
           )} (Allowed by non-strict mode)`
         );
       }
@@ -172,10 +445,25 @@ export async function ingestProject(
       `[DATA]  ++ EXTRACTED     :: title: "${projectData.title}"${courseInfo}`
     );
 
-    return { action: "save", project: projectData, projectId };
+    // 8. Espejar imagen (variantes, color dominante, LQIP); si falla se
+    //    conserva el espejo anterior en vez de perderlo
+    const image = await mirrorProjectImage(projectId, projectData.img_url);
+    projectData =
+      image === undefined
+        ? await keepPreviousImage(projectId, projectData)
+        : { ...projectData, image };
+
+    return { action: "save", project: projectData, projectId, fingerprint };
   } catch (err: any) {
     console.error(`[ERR]   :: EXTRACT_FAIL  :: ${err.message}`);
-    return { action: "skip", project: null, projectId, reason: err.message };
+    return {
+      action: "skip",
+      project: null,
+      projectId,
+      reason: err.message,
+      validationErrors: err instanceof ZodError ? err.issues : undefined,
+      retryable: !(err instanceof ZodError),
+    };
   }
 }
 // =====================================================================
@@ -184,42 +472,96 @@ export async function ingestProject(
 
 /**
  * [PERSIST] :: SAVE_PROJECT
- * Upsert del proyecto en base de datos usando Prisma.
+ * Upsert del proyecto en base de datos usando Prisma. Los campos
+ * bloqueados (locked_fields) no se sobrescriben en el update. Con la
+ * política de revisión activa, un proyecto nuevo entra como 'draft' y
+ * los cambios sobre uno publicado quedan en `draft` hasta aprobarlos.
+ * Cada cambio aplicado queda en el historial de revisiones.
  *
- * @param project - Objeto de proyecto validado.
+ * @param project     - Objeto de proyecto validado.
+ * @param fingerprint - (Optional) Huella de contenido para evitar re-extracciones.
+ * @param meta        - (Optional) Origen del cambio (default: seed).
  *
  * @returns Promesa vacía al completar.
  */
-export async function saveProject(project: Project): Promise<void> {
+export async function saveProject(
+  project: Project,
+  fingerprint?: IngestFingerprint,
+  meta: RevisionMeta = { source: "seed" }
+): Promise<void> {
   console.log(`[DB]    >> WRITING       :: project: '${project.title}'`);
 
-  await prisma.project.upsert({
+  const fingerprintFields = fingerprint
+    ? {
+        content_hash: fingerprint.contentHash,
+        extractor_version: fingerprint.extractorVersion,
+      }
+    : {};
+
+  const content: ProjectContent = {
+    title: project.title,
+    tagline: project.tagline,
+    description: project.description,
+    // Nombres canónicos: "Vue.js" y "VueJS" son "Vue" (ver shared/techs)
+    tech_stack: canonicalTechStack(project.tech_stack),
+    primary_tech: canonicalTech(project.primary_tech),
+    img_url: project.img_url,
+    repo_url: project.repo_url,
+    demo_url: project.demo_url,
+    origin: project.origin,
+    image: project.image,
+  };
+
+  const existing = await prisma.project.findUnique({
+    where: { id: project.id },
+  });
+  const locked = normalizeLockedFields(existing?.locked_fields);
+  const update = omitLockedFields(content, locked) as ProjectContent;
+  const policy = getReviewPolicy();
+
+  // Cambios sobre una versión publicada: esperan revisión en `draft`
+  if (existing && shouldHoldChanges(existing.status, policy)) {
+    const changes = diffProject(existing, update);
+    if (changes.length > 0) {
+      await prisma.project.update({
+        where: { id: project.id },
+        data: {
+          draft: update as Prisma.InputJsonValue,
+          ...fingerprintFields,
+        },
+      });
+      console.log(
+        `[DB]    ++ DRAFTED       :: id: ${project.id} | changed: ${changes.map((c) => c.field).join(", ")} (awaiting review)`
+      );
+      return;
+    }
+  }
+
+  const status = existing?.status ?? initialStatus(policy);
+  const saved = await prisma.project.upsert({
     where: { id: project.id },
     update: {
-      title: project.title,
-      tagline: project.tagline as any,
-      description: project.description as any,
-      tech_stack: project.tech_stack,
-      primary_tech: project.primary_tech.trim(),
-      img_url: project.img_url,
-      repo_url: project.repo_url,
-      demo_url: project.demo_url,
-      origin: project.origin as any,
+      ...toContentColumns(update),
+      draft: jsonColumn(null), // Extracción aplicada: borrador obsoleto
+      ...fingerprintFields,
     },
     create: {
       id: project.id,
-      title: project.title,
-      tagline: project.tagline as any,
-      description: project.description as any,
-      tech_stack: project.tech_stack,
-      primary_tech: project.primary_tech.trim(),
-      img_url: project.img_url,
-      repo_url: project.repo_url,
-      demo_url: project.demo_url,
-      origin: project.origin as any,
+      // saveProject siempre escribe el contenido completo
+      ...(toContentColumns(content) as Omit<Prisma.ProjectCreateInput, "id">),
+      status,
+      ...fingerprintFields,
     },
   });
-  console.log(`[DB]    ++ SAVED         :: id: ${project.id}`);
+  console.log(
+    `[DB]    ++ SAVED         :: id: ${project.id} | status: ${status}${locked.length ? ` | locked: ${locked.join(", ")}` : ""}`
+  );
+
+  await recordRevision(project.id, existing, saved, {
+    model: fingerprint?.extractorVersion,
+    ...meta,
+  });
+  await linkProjectCourse(saved.id, saved.origin);
 }
 
 /**
@@ -250,3 +592,91 @@ export async function deleteProject(projectId: string): Promise<boolean> {
     throw err;
   }
 }
+
+/**
+ * [DB] :: IS_PROTECTED_PROJECT
+ * Proyecto curado a mano: con campos bloqueados o dado de alta/editado
+ * por un admin. La ingesta (seed, cola o webhook) nunca lo borra; solo
+ * el DELETE del panel de admin.
+ */
+async function isProtectedProject(projectId: string): Promise<boolean> {
+  const locked = await prisma.project.count({
+    where: { id: projectId, NOT: { locked_fields: { isEmpty: true } } },
+  });
+  if (locked > 0) return true;
+
+  const curated = await prisma.projectRevision.count({
+    where: { project_id: projectId, source: "admin" },
+  });
+  return curated > 0;
+}
+
+/**
+ * [DELETE] :: PRUNE_PROJECT
+ * Borrado pedido por la ingesta (marcador hidden, assets ausentes en
+ * modo estricto, repo borrado/privado...). Respeta los protegidos.
+ *
+ * @param projectId - ID del proyecto a eliminar.
+ *
+ * @returns true si se eliminó, false si no existía o está protegido.
+ */
+export async function pruneProject(projectId: string): Promise<boolean> {
+  if (await isProtectedProject(projectId)) {
+    console.log(
+      `[DB]    :: PROTECTED     :: id: ${projectId} (curated by hand, kept)`
+    );
+    return false;
+  }
+  return deleteProject(projectId);
+}
+
+/**
+ * [RENAME] :: RENAME_PROJECT
+ * Migra un proyecto al nuevo nombre del repo (ID + repo_url) junto con
+ * su historial de revisiones.
+ * Si ya existe un proyecto con el ID nuevo, el antiguo sobra y se borra.
+ *
+ * @param oldId   - ID anterior (nombre previo del repo).
+ * @param newId   - ID nuevo (nombre actual del repo).
+ * @param repoUrl - URL actual del repositorio.
+ *
+ * @returns true si había algo que migrar, false si no existía.
+ */
+export async function renameProject(
+  oldId: string,
+  newId: string,
+  repoUrl: string
+): Promise<boolean> {
+  console.log(`[DB]    >> RENAMING      :: project: '${oldId}' -> '${newId}'`);
+
+  const existing = await prisma.project.findUnique({ where: { id: newId } });
+  if (existing) {
+    console.warn(
+      `[WARN]  :: RENAME_CLASH  :: '${newId}' already exists. Dropping '${oldId}'`
+    );
+    return deleteProject(oldId);
+  }
+
+  try {
+    await prisma.project.update({
+      where: { id: oldId },
+      data: { id: newId, repo_url: repoUrl },
+    });
+    // El historial sigue al proyecto
+    await prisma.projectRevision.updateMany({
+      where: { project_id: oldId },
+      data: { project_id: newId },
+    });
+    console.log(`[DB]    ++ RENAMED       :: id: ${oldId} -> ${newId}`);
+    return true;
+  } catch (err: any) {
+    // P2025 = Record not found (Prisma error code)
+    if (err.code === "P2025") {
+      console.log(
+        `[DB]    :: NOT_FOUND     :: id: ${oldId} (nothing to rename)`
+      );
+      return false;
+    }
+    throw err;
+  }
+}
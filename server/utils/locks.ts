@@ -0,0 +1,146 @@
+/**
+ * [MODULE] :: FIELD_LOCKS
+ * ----------------------------------------------------------------------
+ * Bloqueo de campos por proyecto. Una corrección manual (tagline mejor,
+ * primary_tech correcta...) se bloquea para que la siguiente ingesta no
+ * la pise. Los campos bloqueados se exponen en la API como curados.
+ *
+ * @module    server/utils/locks
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "./prisma";
+import {
+  LOCKABLE_FIELDS,
+  type LockableField,
+  type Project,
+} from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: CURATED_FIELDS
+ * Campos bloqueados de un proyecto y sus valores guardados.
+ */
+export type CuratedFields = {
+  fields: LockableField[];
+  values: Partial<Project>;
+};
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: IS_LOCKABLE_FIELD
+ * Type guard contra LOCKABLE_FIELDS.
+ */
+export function isLockableField(field: string): field is LockableField {
+  return (LOCKABLE_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * [UTIL] :: NORMALIZE_LOCKED_FIELDS
+ * Limpia el valor de la columna: solo campos válidos, sin duplicados y
+ * en el orden de LOCKABLE_FIELDS.
+ */
+export function normalizeLockedFields(raw: unknown): LockableField[] {
+  if (!Array.isArray(raw)) return [];
+  return LOCKABLE_FIELDS.filter((field) => raw.includes(field));
+}
+
+/**
+ * [UTIL] :: OMIT_LOCKED_FIELDS
+ * Quita de un payload de actualización los campos bloqueados.
+ *
+ * @param data   - Datos a escribir.
+ * @param locked - Campos bloqueados del proyecto.
+ *
+ * @returns Copia de `data` sin los campos bloqueados.
+ */
+export function omitLockedFields<T extends Record<string, unknown>>(
+  data: T,
+  locked: LockableField[]
+): Partial<T> {
+  if (locked.length === 0) return data;
+
+  return Object.fromEntries(
+    Object.entries(data).filter(
+      ([key]) => !(locked as readonly string[]).includes(key)
+    )
+  ) as Partial<T>;
+}
+
+// =====================================================================
+// [SECTION] :: PERSISTENCE
+// =====================================================================
+
+/**
+ * [DB] :: GET_LOCKED_FIELDS
+ * Campos bloqueados de un proyecto ([] si no existe).
+ */
+export async function getLockedFields(
+  projectId: string
+): Promise<LockableField[]> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { locked_fields: true },
+  });
+  return normalizeLockedFields(project?.locked_fields);
+}
+
+/**
+ * [DB] :: GET_CURATED_FIELDS
+ * Valores guardados de los campos bloqueados, para superponerlos a una
+ * extracción nueva antes de los filtros de calidad.
+ */
+export async function getCuratedFields(
+  projectId: string
+): Promise<CuratedFields> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  });
+  const fields = normalizeLockedFields(project?.locked_fields);
+  if (!project || fields.length === 0) return { fields: [], values: {} };
+
+  const values = Object.fromEntries(
+    fields.map((field) => [field, project[field]])
+  ) as Partial<Project>;
+
+  return { fields, values };
+}
+
+/**
+ * [PERSIST] :: SET_FIELD_LOCKS
+ * Bloquea y/o desbloquea campos de un proyecto.
+ *
+ * @param projectId - ID del proyecto.
+ * @param lock      - Campos a bloquear.
+ * @param unlock    - (Optional) Campos a desbloquear.
+ *
+ * @returns Campos bloqueados resultantes.
+ * @throws  {Error} - Si el proyecto no existe (P2025).
+ */
+export async function setFieldLocks(
+  projectId: string,
+  lock: LockableField[],
+  unlock: LockableField[] = []
+): Promise<LockableField[]> {
+  const current = await getLockedFields(projectId);
+  const next = normalizeLockedFields(
+    [...current, ...lock].filter((field) => !unlock.includes(field))
+  );
+
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { locked_fields: next },
+  });
+  console.log(
+    `[DB]    ++ LOCKS         :: id: ${projectId} | locked: ${next.join(", ") || "none"}`
+  );
+
+  return next;
+}
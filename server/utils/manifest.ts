@@ -0,0 +1,231 @@
+/**
+ * [MODULE] :: MANIFEST_UTILS
+ * ----------------------------------------------------------------------
+ * Lectura y fusión del manifest in-repo de TinyShow.
+ * Permite que cada repositorio fije campos del Project explícitamente
+ * (`tinyshow.json`, `tinyshow.yaml` o front-matter del README).
+ *
+ * @module    server/utils/manifest
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { Octokit } from "octokit";
+import { parse as parseYaml } from "yaml";
+import {
+  ProjectManifestSchema,
+  ProjectSchema,
+  type Project,
+  type ProjectManifest,
+} from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+/** Ficheros de manifest en orden de prioridad (raíz del repo) */
+export const MANIFEST_FILES = [
+  "tinyshow.json",
+  "tinyshow.yaml",
+  "tinyshow.yml",
+];
+
+const ENDPOINT_CONTENTS = "GET /repos/{owner}/{repo}/contents/{path}";
+const MEDIA_TYPE_RAW = "raw";
+const JSON_EXTENSION = ".json";
+const FRONT_MATTER_REGEX = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\s*(\r?\n|$)/;
+const FRONT_MATTER_KEY = "tinyshow"; // Namespace opcional dentro del front-matter
+const FRONT_MATTER_SOURCE = "README front-matter";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: MANIFEST_RESULT
+ * Manifest validado junto a su origen (para logs).
+ */
+export type ManifestResult = {
+  manifest: ProjectManifest;
+  source: string;
+};
+
+// =====================================================================
+// [SECTION] :: PARSING
+// =====================================================================
+
+/**
+ * [PARSE] :: PARSE_MANIFEST
+ * Valida un objeto crudo contra ProjectManifestSchema.
+ * Un manifest inválido se ignora (warning) en lugar de romper la ingesta.
+ *
+ * @param raw    - Objeto deserializado (JSON/YAML).
+ * @param source - Nombre del origen para logs.
+ *
+ * @returns Manifest válido o null.
+ */
+function parseManifest(raw: unknown, source: string): ProjectManifest | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  // Front-matter puede namespacear los campos bajo `tinyshow:`
+  const scoped =
+    FRONT_MATTER_KEY in raw
+      ? (raw as Record<string, unknown>)[FRONT_MATTER_KEY]
+      : raw;
+
+  const result = ProjectManifestSchema.safeParse(scoped);
+  if (!result.success) {
+    console.warn(
+      `[WARN]  :: BAD_MANIFEST  :: source: ${source} | ${result.error.issues
+        .map((i) => `${i.path.join(".")}: ${i.message}`)
+        .join("; ")}`
+    );
+    return null;
+  }
+
+  return result.data;
+}
+
+/**
+ * [PARSE] :: PARSE_README_FRONT_MATTER
+ * Extrae el bloque YAML inicial (`---`) de un README.
+ *
+ * @param readmeContent - Contenido del README.
+ *
+ * @returns Manifest válido o null si no hay front-matter.
+ */
+export function parseReadmeFrontMatter(
+  readmeContent: string
+): ProjectManifest | null {
+  const block = readmeContent.match(FRONT_MATTER_REGEX)?.[1];
+  if (!block) return null;
+
+  try {
+    return parseManifest(parseYaml(block), FRONT_MATTER_SOURCE);
+  } catch (err: any) {
+    console.warn(
+      `[WARN]  :: BAD_MANIFEST  :: source: ${FRONT_MATTER_SOURCE} | ${err.message}`
+    );
+    return null;
+  }
+}
+
+// =====================================================================
+// [SECTION] :: FETCH
+// =====================================================================
+
+/**
+ * [FETCH] :: FETCH_MANIFEST
+ * Busca el manifest del repo: primero ficheros dedicados, luego el
+ * front-matter del README ya descargado.
+ *
+ * @param owner         - Propietario del repositorio.
+ * @param repo          - Nombre del repositorio.
+ * @param octokit       - Instancia del cliente GitHub.
+ * @param branch        - Rama objetivo.
+ * @param readmeContent - README ya descargado (para el front-matter).
+ *
+ * @returns Manifest con su origen, o null si el repo no declara ninguno.
+ */
+export async function fetchManifest(
+  owner: string,
+  repo: string,
+  octokit: Octokit,
+  branch: string,
+  readmeContent: string
+): Promise<ManifestResult | null> {
+  for (const file of MANIFEST_FILES) {
+    let content: string;
+    try {
+      const { data } = await octokit.request(ENDPOINT_CONTENTS, {
+        owner,
+        repo,
+        path: file,
+        ref: branch,
+        mediaType: { format: MEDIA_TYPE_RAW },
+      });
+      content = data as unknown as string;
+    } catch (e: any) {
+      if (e.status === 404) continue;
+      throw e;
+    }
+
+    try {
+      const raw = file.endsWith(JSON_EXTENSION)
+        ? JSON.parse(content)
+        : parseYaml(content);
+      const manifest = parseManifest(raw, file);
+      if (manifest) return { manifest, source: file };
+    } catch (err: any) {
+      console.warn(
+        `[WARN]  :: BAD_MANIFEST  :: source: ${file} | ${err.message}`
+      );
+    }
+  }
+
+  const frontMatter = parseReadmeFrontMatter(readmeContent);
+  if (frontMatter) {
+    return { manifest: frontMatter, source: FRONT_MATTER_SOURCE };
+  }
+
+  return null;
+}
+
+// =====================================================================
+// [SECTION] :: MERGE
+// =====================================================================
+
+/**
+ * [BUILD] :: MANIFEST_TO_PROJECT
+ * Intenta construir un Project solo con el manifest (sin IA).
+ *
+ * @param manifest  - Manifest validado.
+ * @param projectId - ID por defecto (nombre del repo).
+ * @param repoUrl   - URL por defecto del repositorio.
+ *
+ * @returns Project si el manifest cubre todos los campos requeridos, si no null.
+ */
+export function manifestToProject(
+  manifest: ProjectManifest,
+  projectId: string,
+  repoUrl: string
+): Project | null {
+  const { hidden: _hidden, ...fields } = manifest;
+  const result = ProjectSchema.safeParse({
+    ...fields,
+    id: projectId,
+    repo_url: repoUrl,
+  });
+  return result.success ? result.data : null;
+}
+
+/**
+ * [MERGE] :: MERGE_MANIFEST
+ * Superpone el manifest sobre la extracción. El manifest siempre gana;
+ * los textos localizados y `origin` se fusionan campo a campo.
+ *
+ * @param extracted - Project devuelto por la IA/heurística.
+ * @param manifest  - Manifest validado.
+ *
+ * @returns Project final validado por Zod.
+ */
+export function mergeManifest(
+  extracted: Project,
+  manifest: ProjectManifest
+): Project {
+  const { hidden: _hidden, tagline, description, origin, ...fields } = manifest;
+
+  return ProjectSchema.parse({
+    ...extracted,
+    ...fields,
+    // Identidad del repo: nunca la decide el manifest
+    id: extracted.id,
+    repo_url: extracted.repo_url,
+    tagline: { ...extracted.tagline, ...tagline },
+    description: { ...extracted.description, ...description },
+    origin:
+      origin === undefined
+        ? extracted.origin
+        : origin && { ...extracted.origin, ...origin },
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * [MODULE] :: PROJECT_PAGINATION
+ * ----------------------------------------------------------------------
+ * Orden y paginación por cursor del listado público. Cada orden es una
+ * lista de claves que termina en `id`, así que es total y estable: el
+ * cursor guarda los valores de esas claves en el último proyecto de la
+ * página y la siguiente empieza justo después (keyset), aunque entren o
+ * salgan proyectos entre peticiones.
+ *
+ * @module    server/utils/pagination
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { ProjectSort } from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: SORT_KEY
+ * Columna del orden, su dirección y cómo se serializa en el cursor.
+ */
+type SortKey = {
+  field: string;
+  direction: "asc" | "desc";
+  type: "string" | "number" | "boolean" | "date";
+};
+
+/**
+ * [TYPE] :: CURSOR_PAYLOAD
+ * Contenido del cursor: el orden con el que se generó y los valores
+ * de sus claves (fechas en ISO).
+ */
+type CursorPayload = {
+  sort: ProjectSort;
+  values: (string | number | boolean)[];
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const ID_KEY: SortKey = { field: "id", direction: "asc", type: "string" };
+
+/** Claves de cada orden (el `id` final desempata) */
+const SORT_KEYS: Record<ProjectSort, SortKey[]> = {
+  manual: [
+    { field: "pinned", direction: "desc", type: "boolean" },
+    { field: "sort_order", direction: "asc", type: "number" },
+    { field: "updatedAt", direction: "desc", type: "date" },
+    ID_KEY,
+  ],
+  updated: [{ field: "updatedAt", direction: "desc", type: "date" }, ID_KEY],
+  created: [{ field: "createdAt", direction: "desc", type: "date" }, ID_KEY],
+  title: [{ field: "title", direction: "asc", type: "string" }, ID_KEY],
+};
+
+// =====================================================================
+// [SECTION] :: ORDERING
+// =====================================================================
+
+/**
+ * [QUERY] :: TO_ORDER_BY
+ * orderBy de Prisma para un orden.
+ */
+export function toOrderBy(sort: ProjectSort) {
+  return SORT_KEYS[sort].map((key) => ({ [key.field]: key.direction }));
+}
+
+// =====================================================================
+// [SECTION] :: CURSORS
+// =====================================================================
+
+/**
+ * [UTIL] :: ENCODE_CURSOR
+ * Cursor opaco (base64url) tras este proyecto.
+ */
+export function encodeCursor(
+  sort: ProjectSort,
+  row: Record<string, unknown>
+): string {
+  const payload: CursorPayload = {
+    sort,
+    values: SORT_KEYS[sort].map((key) => {
+      const value = row[key.field];
+      return value instanceof Date
+        ? value.toISOString()
+        : (value as string | number | boolean);
+    }),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * [UTIL] :: DECODE_CURSOR
+ * Valores de las claves de un cursor, validados contra el orden pedido.
+ *
+ * @returns Valores (fechas como Date) o null si el cursor no es válido
+ *          o se generó con otro orden.
+ */
+export function decodeCursor(
+  sort: ProjectSort,
+  cursor: string
+): unknown[] | null {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  const keys = SORT_KEYS[sort];
+  if (
+    payload?.sort !== sort ||
+    !Array.isArray(payload.values) ||
+    payload.values.length !== keys.length
+  ) {
+    return null;
+  }
+
+  const values: unknown[] = [];
+  for (const [index, key] of keys.entries()) {
+    const value = payload.values[index];
+    if (key.type === "date") {
+      const date = new Date(value as string);
+      if (typeof value !== "string" || isNaN(date.getTime())) return null;
+      values.push(date);
+    } else {
+      if (typeof value !== key.type) return null;
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * [UTIL] :: AFTER_CONDITION
+ * Condición "va después de `value`" en una clave, o null si nada puede
+ * ir después (un booleano ya en el último valor de su orden).
+ */
+function afterCondition(key: SortKey, value: unknown) {
+  if (key.type === "boolean") {
+    // false < true: en desc tras true va false; en asc tras false va true
+    const last = key.direction === "desc" ? false : true;
+    return value === last ? null : { [key.field]: last };
+  }
+  return { [key.field]: { [key.direction === "asc" ? "gt" : "lt"]: value } };
+}
+
+/**
+ * [QUERY] :: BUILD_CURSOR_WHERE
+ * Condición keyset: proyectos estrictamente posteriores al cursor en el
+ * orden dado (igual en las claves anteriores y posterior en una).
+ */
+export function buildCursorWhere(sort: ProjectSort, values: unknown[]) {
+  const keys = SORT_KEYS[sort];
+  const branches: Record<string, unknown>[] = [];
+
+  keys.forEach((key, index) => {
+    const after = afterCondition(key, values[index]);
+    if (!after) return;
+
+    const equal = keys
+      .slice(0, index)
+      .map((previous, i) => ({ [previous.field]: values[i] }));
+    branches.push({ AND: [...equal, after] });
+  });
+
+  return { OR: branches };
+}
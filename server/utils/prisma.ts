@@ -9,7 +9,7 @@
  * ----------------------------------------------------------------------
  */
 
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import { Pool } from "pg";
 import { PrismaPg } from "@prisma/adapter-pg";
 
@@ -72,3 +72,18 @@ export const prisma = globalThis._prisma ?? prismaClientSingleton();
 if (process.env.NODE_ENV !== "production") {
   globalThis._prisma = prisma;
 }
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: JSON_COLUMN
+ * Valor para una columna `Json?`: Prisma rechaza `null` literal, así que
+ * se traduce a SQL NULL. `undefined` se mantiene (no tocar la columna).
+ */
+export function jsonColumn<T>(
+  value: T | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
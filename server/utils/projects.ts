@@ -0,0 +1,231 @@
+/**
+ * [MODULE] :: PROJECT_ADMIN
+ * ----------------------------------------------------------------------
+ * Operaciones de gestión manual de proyectos para /api/admin/projects:
+ * alta, edición validada por ProjectSchema, re-ingesta forzada por la
+ * cola. Toda edición manual bloquea los campos tocados (locked_fields)
+ * para que la siguiente ingesta no la deshaga.
+ *
+ * @module    server/utils/projects
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { jsonColumn, prisma } from "./prisma";
+import { getDefaultBranch } from "./github";
+import { mirrorProjectImage } from "./images";
+import { normalizeLockedFields } from "./locks";
+import { enqueueIngestJob, type EnqueueResult } from "./queue";
+import { recordRevision } from "./revisions";
+import { linkProjectCourse } from "./courses";
+import {
+  LOCKABLE_FIELDS,
+  LockableFieldSchema,
+  ProjectCurationSchema,
+  ProjectSchema,
+  ProjectStatusSchema,
+  type LockableField,
+} from "../../shared/types";
+import { canonicalTech, canonicalTechStack } from "../../shared/techs";
+
+// =====================================================================
+// [SECTION] :: SCHEMAS
+// =====================================================================
+
+/**
+ * Alta manual: proyecto completo. Sin `locked_fields` explícito se
+ * bloquean todos los campos (el contenido es curado desde el inicio).
+ * Sin `status` se publica directamente (lo ha escrito el equipo).
+ */
+export const ProjectCreateSchema = ProjectSchema.extend({
+  locked_fields: z.array(LockableFieldSchema).optional(),
+  status: ProjectStatusSchema.optional(),
+  ...ProjectCurationSchema.partial().shape,
+});
+
+/**
+ * Edición parcial (el ID no se cambia aquí; los renombrados llegan por
+ * webhook). Sin `locked_fields` explícito se bloquean los campos editados.
+ * `status` permite ocultar o despublicar sin tocar el contenido; el
+ * orden manual y los destacados no se bloquean (la ingesta no los toca).
+ */
+export const ProjectPatchSchema = ProjectSchema.omit({ id: true })
+  .partial()
+  .extend({
+    locked_fields: z.array(LockableFieldSchema).optional(),
+    status: ProjectStatusSchema.optional(),
+    ...ProjectCurationSchema.partial().shape,
+  })
+  .strict();
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+export type ProjectCreateInput = z.infer<typeof ProjectCreateSchema>;
+export type ProjectPatchInput = z.infer<typeof ProjectPatchSchema>;
+
+/**
+ * [TYPE] :: REPO_REF
+ * Propietario y nombre extraídos de repo_url.
+ */
+export type RepoRef = {
+  owner: string;
+  repo: string;
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const GITHUB_DOMAIN = "github.com";
+const DEFAULT_BRANCH = "main"; // Sin respuesta de GitHub; la ingesta cae a 'master' si no existe
+const GIT_SUFFIX = /\.git$/;
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: PARSE_REPO_URL
+ * `https://github.com/{owner}/{repo}` u `owner/repo` -> RepoRef.
+ *
+ * @returns RepoRef o null si no es un repo de GitHub.
+ */
+export function parseRepoUrl(repoUrl: string): RepoRef | null {
+  const path = repoUrl.includes(GITHUB_DOMAIN)
+    ? repoUrl.split(`${GITHUB_DOMAIN}/`)[1] || ""
+    : repoUrl;
+  const [owner, repo] = path.split("/");
+
+  if (!owner || !repo) return null;
+  return { owner, repo: repo.replace(GIT_SUFFIX, "") };
+}
+
+/**
+ * [UTIL] :: TO_PROJECT_COLUMNS
+ * Campos del input a columnas de Prisma (solo los presentes).
+ */
+function toProjectColumns(input: ProjectPatchInput): Prisma.ProjectUpdateInput {
+  const {
+    locked_fields: _locked,
+    primary_tech,
+    tech_stack,
+    origin,
+    ...fields
+  } = input;
+  const columns: Prisma.ProjectUpdateInput = { ...fields };
+  if (primary_tech !== undefined) {
+    columns.primary_tech = canonicalTech(primary_tech);
+  }
+  if (tech_stack !== undefined) {
+    columns.tech_stack = canonicalTechStack(tech_stack);
+  }
+  if (origin !== undefined) columns.origin = jsonColumn(origin);
+  return columns;
+}
+
+/**
+ * [UTIL] :: EDITED_LOCKABLE_FIELDS
+ * Campos bloqueables presentes en el input.
+ */
+function editedLockableFields(input: ProjectPatchInput): LockableField[] {
+  return LOCKABLE_FIELDS.filter((field) => input[field] !== undefined);
+}
+
+// =====================================================================
+// [SECTION] :: MUTATIONS
+// =====================================================================
+
+/**
+ * [PERSIST] :: CREATE_PROJECT
+ * Alta manual de un proyecto (con espejo de imagen si tiene img_url).
+ *
+ * @throws {Error} - P2002 si el ID ya existe.
+ */
+export async function createProject(input: ProjectCreateInput) {
+  const lockedFields = input.locked_fields ?? [...LOCKABLE_FIELDS];
+
+  const project = await prisma.project.create({
+    data: {
+      // El alta trae todos los campos obligatorios (ProjectCreateSchema)
+      ...(toProjectColumns(input) as Omit<Prisma.ProjectCreateInput, "id">),
+      id: input.id,
+      locked_fields: normalizeLockedFields(lockedFields),
+      // Espejo fallido: se sirve img_url tal cual
+      image: jsonColumn(
+        (await mirrorProjectImage(input.id, input.img_url)) ?? null
+      ),
+    },
+  });
+  console.log(
+    `[DB]    ++ CREATED       :: id: ${project.id} | locked: ${project.locked_fields.length}`
+  );
+  await recordRevision(project.id, null, project, { source: "admin" });
+  await linkProjectCourse(project.id, project.origin);
+
+  return project;
+}
+
+/**
+ * [PERSIST] :: UPDATE_PROJECT
+ * Edición parcial. Los campos editados se bloquean (salvo que el input
+ * traiga `locked_fields`, que sustituye a los bloqueos actuales). Un
+ * img_url nuevo se vuelve a espejar. Queda registrado como revisión.
+ *
+ * @throws {Error} - P2025 si el proyecto no existe.
+ */
+export async function updateProject(id: string, input: ProjectPatchInput) {
+  const current = await prisma.project.findUniqueOrThrow({
+    where: { id },
+  });
+
+  const lockedFields =
+    input.locked_fields ??
+    normalizeLockedFields([
+      ...current.locked_fields,
+      ...editedLockableFields(input),
+    ]);
+
+  const data: Prisma.ProjectUpdateInput = {
+    ...toProjectColumns(input),
+    locked_fields: normalizeLockedFields(lockedFields),
+  };
+  if (input.img_url !== undefined && input.img_url !== current.img_url) {
+    // URL elegida a mano: si el espejo falla se sirve tal cual, no el anterior
+    data.image = jsonColumn(
+      (await mirrorProjectImage(id, input.img_url)) ?? null
+    );
+  }
+
+  const project = await prisma.project.update({
+    where: { id },
+    data,
+  });
+  console.log(
+    `[DB]    ++ UPDATED       :: id: ${id} | fields: ${Object.keys(toProjectColumns(input)).join(", ") || "none"} | locked: ${project.locked_fields.join(", ") || "none"}`
+  );
+  await recordRevision(id, current, project, { source: "admin" });
+  if (input.origin !== undefined) {
+    await linkProjectCourse(id, project.origin);
+  }
+
+  return project;
+}
+
+/**
+ * [QUEUE] :: REINGEST_REPO
+ * Encola una re-ingesta forzada (re-extrae aunque el README no cambie)
+ * de la rama por defecto del repo. Los campos bloqueados se respetan
+ * igualmente.
+ */
+export async function reingestRepo(ref: RepoRef): Promise<EnqueueResult> {
+  const branch =
+    (await getDefaultBranch(ref.owner, ref.repo)) ?? DEFAULT_BRANCH;
+  return enqueueIngestJob(ref.owner, ref.repo, branch, {
+    source: "manual",
+    force: true,
+  });
+}
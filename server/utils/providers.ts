@@ -0,0 +1,317 @@
+/**
+ * [MODULE] :: EXTRACTION_PROVIDERS
+ * ----------------------------------------------------------------------
+ * Capa de proveedores LLM intercambiables para la extracción de READMEs.
+ * Soporta endpoints compatibles con OpenAI, servidores locales estilo
+ * Ollama y un proveedor stub determinista para CI y desarrollo offline.
+ *
+ * @module    server/utils/providers
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import OpenAI from "openai";
+import {
+  DEFAULT_CONTENT_LOCALE,
+  fillMissingLocales,
+} from "../../shared/locales";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: EXTRACTION_PROVIDER_NAME
+ * Backends disponibles seleccionables vía runtime config.
+ */
+export type ExtractionProviderName = "openai" | "ollama" | "stub";
+
+/**
+ * [TYPE] :: EXTRACTION_REQUEST
+ * Entrada normalizada que recibe cualquier proveedor.
+ */
+export type ExtractionRequest = {
+  systemPrompt: string;
+  readmeContent: string;
+  repoUrl: string;
+};
+
+/**
+ * [TYPE] :: EXTRACTION_PROVIDER
+ * Contrato común de los backends. Devuelve JSON crudo sin validar;
+ * la validación Zod es responsabilidad de `extractProjectData`.
+ * `completeJson` cubre tareas libres (ej: traducciones del backfill).
+ */
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  model: string;
+  extract(request: ExtractionRequest): Promise<unknown>;
+  completeJson(systemPrompt: string, userContent: string): Promise<unknown>;
+}
+
+/**
+ * [TYPE] :: EXTRACTION_CONFIG
+ * Configuración resuelta del proveedor activo.
+ */
+export type ExtractionConfig = {
+  provider: ExtractionProviderName;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const PROVIDER_OPENAI: ExtractionProviderName = "openai";
+const PROVIDER_OLLAMA: ExtractionProviderName = "ollama";
+const PROVIDER_STUB: ExtractionProviderName = "stub";
+
+const DEFAULT_PROVIDER = PROVIDER_OPENAI;
+const DEFAULT_OPENAI_BASE_URL = "https://api.deepseek.com";
+const DEFAULT_OPENAI_MODEL = "deepseek-chat";
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+const DEFAULT_OLLAMA_MODEL = "llama3.1";
+const STUB_MODEL = "stub-v1";
+
+const OLLAMA_CHAT_PATH = "/api/chat";
+const OLLAMA_FORMAT_JSON = "json";
+const TEMPERATURE = 0.1; // Baja temperatura para precisión
+const REQUEST_TIMEOUT_MS = 2 * 60 * 1000; // Un modelo colgado no bloquea la cola
+
+const STUB_PRIMARY_TECH = "Unknown";
+const STUB_TAGLINE = "Stub extraction";
+const H1_REGEX = /^#\s+(.+)$/m;
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: GET_EXTRACTION_CONFIG
+ * Resuelve la configuración del proveedor desde runtime config o
+ * process.env. Permite que funcione tanto en Nitro como en scripts.
+ *
+ * @returns Configuración con defaults por proveedor aplicados.
+ */
+export function getExtractionConfig(): ExtractionConfig {
+  let runtimeAi: Partial<ExtractionConfig> = {};
+  let runtimeDeepseekKey = "";
+
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      const config = useRuntimeConfig();
+      runtimeAi = (config?.ai as Partial<ExtractionConfig>) || {};
+      runtimeDeepseekKey = (config?.deepseekApiKey as string) || "";
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+
+  const provider = (runtimeAi.provider ||
+    process.env.NUXT_AI_PROVIDER ||
+    DEFAULT_PROVIDER) as ExtractionProviderName;
+
+  const isOllama = provider === PROVIDER_OLLAMA;
+
+  return {
+    provider,
+    baseUrl:
+      runtimeAi.baseUrl ||
+      process.env.NUXT_AI_BASE_URL ||
+      (isOllama ? DEFAULT_OLLAMA_BASE_URL : DEFAULT_OPENAI_BASE_URL),
+    model:
+      runtimeAi.model ||
+      process.env.NUXT_AI_MODEL ||
+      (isOllama ? DEFAULT_OLLAMA_MODEL : DEFAULT_OPENAI_MODEL),
+    // NUXT_DEEPSEEK_API_KEY se mantiene por compatibilidad
+    apiKey:
+      runtimeAi.apiKey ||
+      process.env.NUXT_AI_API_KEY ||
+      runtimeDeepseekKey ||
+      process.env.NUXT_DEEPSEEK_API_KEY ||
+      "",
+  };
+}
+
+// =====================================================================
+// [SECTION] :: PROVIDERS
+// =====================================================================
+
+/**
+ * [PROVIDER] :: OPENAI_COMPATIBLE
+ * Cualquier API compatible con OpenAI (DeepSeek, OpenRouter, vLLM...).
+ *
+ * @param config - Configuración resuelta.
+ *
+ * @returns Proveedor listo para usar.
+ * @throws  {Error} - Si falta la API Key.
+ */
+function createOpenAiProvider(config: ExtractionConfig): ExtractionProvider {
+  if (!config.apiKey) {
+    throw new Error("Missing NUXT_AI_API_KEY (or NUXT_DEEPSEEK_API_KEY)");
+  }
+
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseUrl,
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+
+  const completeJson = async (systemPrompt: string, userContent: string) => {
+    const completion = await client.chat.completions.create({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userContent },
+      ],
+      model: config.model,
+      response_format: { type: "json_object" },
+      temperature: TEMPERATURE,
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) throw new Error(`Empty response from ${config.model}`);
+
+    return JSON.parse(content);
+  };
+
+  return {
+    name: PROVIDER_OPENAI,
+    model: config.model,
+    completeJson,
+    extract: ({ systemPrompt, readmeContent, repoUrl }) =>
+      completeJson(
+        systemPrompt,
+        `Repository URL: ${repoUrl}\n\n${readmeContent}`
+      ),
+  };
+}
+
+/**
+ * [PROVIDER] :: OLLAMA
+ * Servidor local estilo Ollama (`POST /api/chat`). No requiere API Key.
+ * Un timeout se lanza como error normal: la ingesta lo trata como
+ * fallo transitorio y el trabajo se reintenta.
+ *
+ * @param config - Configuración resuelta.
+ *
+ * @returns Proveedor listo para usar.
+ */
+function createOllamaProvider(config: ExtractionConfig): ExtractionProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}${OLLAMA_CHAT_PATH}`;
+
+  const completeJson = async (systemPrompt: string, userContent: string) => {
+    let res: Response;
+    try {
+      res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: config.model,
+          stream: false,
+          format: OLLAMA_FORMAT_JSON,
+          options: { temperature: TEMPERATURE },
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userContent },
+          ],
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (err: any) {
+      if (err?.name === "TimeoutError") {
+        throw new Error(
+          `Ollama request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+        );
+      }
+      throw err;
+    }
+
+    if (!res.ok) {
+      throw new Error(`Ollama request failed: ${res.status} ${res.statusText}`);
+    }
+
+    const data = (await res.json()) as { message?: { content?: string } };
+    const content = data.message?.content;
+    if (!content) throw new Error(`Empty response from ${config.model}`);
+
+    return JSON.parse(content);
+  };
+
+  return {
+    name: PROVIDER_OLLAMA,
+    model: config.model,
+    completeJson,
+    extract: ({ systemPrompt, readmeContent, repoUrl }) =>
+      completeJson(
+        systemPrompt,
+        `Repository URL: ${repoUrl}\n\n${readmeContent}`
+      ),
+  };
+}
+
+/**
+ * [PROVIDER] :: STUB
+ * Proveedor determinista sin red. Misma entrada => misma salida.
+ * Pensado para CI y portátiles sin acceso a un modelo.
+ *
+ * @returns Proveedor listo para usar.
+ */
+function createStubProvider(): ExtractionProvider {
+  return {
+    name: PROVIDER_STUB,
+    model: STUB_MODEL,
+    async completeJson() {
+      throw new Error("Stub provider does not support free-form completions");
+    },
+    async extract({ readmeContent, repoUrl }) {
+      const repoName = repoUrl.split("/").filter(Boolean).pop() || "project";
+      const heading = readmeContent.match(H1_REGEX)?.[1]?.trim();
+      const description = `Deterministic stub extraction for ${repoName}.`;
+
+      return {
+        id: repoName,
+        title: heading || repoName,
+        tagline: fillMissingLocales({ [DEFAULT_CONTENT_LOCALE]: STUB_TAGLINE }),
+        description: fillMissingLocales({
+          [DEFAULT_CONTENT_LOCALE]: description,
+        }),
+        tech_stack: [],
+        primary_tech: STUB_PRIMARY_TECH,
+        img_url: null,
+        repo_url: repoUrl,
+        demo_url: null,
+        origin: null,
+      };
+    },
+  };
+}
+
+// =====================================================================
+// [SECTION] :: FACTORY
+// =====================================================================
+
+/**
+ * [FACTORY] :: CREATE_EXTRACTION_PROVIDER
+ * Instancia el backend indicado por la configuración.
+ *
+ * @param config - (Optional) Configuración explícita (default: runtime).
+ *
+ * @returns Proveedor de extracción.
+ * @throws  {Error} - Si el proveedor no existe o le falta configuración.
+ */
+export function createExtractionProvider(
+  config: ExtractionConfig = getExtractionConfig()
+): ExtractionProvider {
+  switch (config.provider) {
+    case PROVIDER_OPENAI:
+      return createOpenAiProvider(config);
+    case PROVIDER_OLLAMA:
+      return createOllamaProvider(config);
+    case PROVIDER_STUB:
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown extraction provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,468 @@
+/**
+ * [MODULE] :: INGEST_QUEUE
+ * ----------------------------------------------------------------------
+ * Cola durable de ingestas sobre Postgres. El webhook solo encola y
+ * responde 202; el worker reclama trabajos con FOR UPDATE SKIP LOCKED,
+ * reintenta con backoff exponencial y deja en 'dead' los agotados.
+ * Un solo trabajo pendiente por repo (dedupe_key, también al reintentar)
+ * y nunca dos en curso (advisory lock por repo al reclamar).
+ * En serverless no hay proceso que sondee: la drena la tarea programada
+ * `ingest:drain` o el cron de /api/cron/ingest.
+ *
+ * @module    server/utils/queue
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "./prisma";
+import { invalidateAllProjectCaches } from "./cache";
+import { getOctokitForOwner } from "./github";
+import { ingestProject, pruneProject, saveProject } from "./ingest";
+import type { IngestResult } from "./ingest";
+import { recordIngestRun, type IngestSource } from "./runs";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: INGEST_JOB_STATUS
+ * Ciclo de vida: pending -> running -> done | pending (retry) | dead.
+ */
+export type IngestJobStatus = "pending" | "running" | "done" | "dead";
+
+/**
+ * [TYPE] :: INGEST_JOB
+ * Fila de la tabla IngestJob.
+ */
+export type IngestJob = {
+  id: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  source: IngestSource;
+  force: boolean;
+  commit_sha: string | null;
+  status: IngestJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_at: Date | null;
+  last_error: string | null;
+};
+
+/**
+ * [TYPE] :: ENQUEUE_OPTIONS
+ * Opciones de encolado.
+ */
+export type EnqueueOptions = {
+  source?: IngestSource; // default: 'webhook'
+  force?: boolean; // Re-extraer aunque el contenido no cambie
+  commitSha?: string; // Commit del push (queda en el historial de revisiones)
+};
+
+/**
+ * [TYPE] :: ENQUEUE_RESULT
+ * 'deduplicated' = ya había un trabajo pendiente para el repo y se reutilizó.
+ */
+export type EnqueueResult = {
+  jobId: string;
+  deduplicated: boolean;
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const STATUS_PENDING: IngestJobStatus = "pending";
+const STATUS_RUNNING: IngestJobStatus = "running";
+const STATUS_DONE: IngestJobStatus = "done";
+const STATUS_DEAD: IngestJobStatus = "dead";
+
+const BACKOFF_BASE_MS = 30 * 1000; // 30s, 1m, 2m, 4m...
+const BACKOFF_MAX_MS = 30 * 60 * 1000; // Tope: 30 minutos
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // Un 'running' más viejo se da por huérfano
+const MAX_ERROR_LENGTH = 2000;
+const CLAIM_CANDIDATES = 10; // Trabajos listos que se miran por reclamo
+
+const PRISMA_UNIQUE_VIOLATION = "P2002";
+const PRISMA_NOT_FOUND = "P2025";
+
+let draining = false; // Un solo drenado por proceso
+
+// =====================================================================
+// [SECTION] :: ENQUEUE
+// =====================================================================
+
+/**
+ * [QUEUE] :: DEDUPE_KEY
+ * Clave de de-duplicación por repo (case-insensitive, como GitHub).
+ */
+function dedupeKey(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * [QUEUE] :: ENQUEUE_INGEST_JOB
+ * Encola una ingesta. Si ya hay una pendiente para el mismo repo, se
+ * actualiza su rama y se adelanta en lugar de crear otra ('force' se
+ * acumula: si cualquiera de los disparos lo pidió, se mantiene; el
+ * commit pasa a ser el del último push).
+ *
+ * @param owner   - Propietario del repositorio.
+ * @param repo    - Nombre del repositorio.
+ * @param branch  - Rama a ingerir.
+ * @param options - (Optional) Origen, re-extracción forzada y commit.
+ *
+ * @returns ID del trabajo y si fue de-duplicado.
+ */
+export async function enqueueIngestJob(
+  owner: string,
+  repo: string,
+  branch: string,
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult> {
+  const { source = "webhook", force = false, commitSha } = options;
+  const key = dedupeKey(owner, repo);
+  const now = new Date();
+
+  const existing = await prisma.ingestJob.findUnique({
+    where: { dedupe_key: key },
+  });
+
+  if (existing) {
+    await prisma.ingestJob.update({
+      where: { id: existing.id },
+      data: {
+        branch,
+        run_at: now,
+        force: existing.force || force,
+        commit_sha: commitSha ?? existing.commit_sha,
+      },
+    });
+    console.log(
+      `[QUEUE] :: DEDUPED       :: job: ${existing.id} | ${owner}/${repo} | branch: ${branch}`
+    );
+    return { jobId: existing.id, deduplicated: true };
+  }
+
+  try {
+    const job = await prisma.ingestJob.create({
+      data: {
+        owner,
+        repo,
+        branch,
+        source,
+        force,
+        commit_sha: commitSha ?? null,
+        dedupe_key: key,
+        run_at: now,
+      },
+    });
+    console.log(
+      `[QUEUE] ++ ENQUEUED      :: job: ${job.id} | ${owner}/${repo} | branch: ${branch}`
+    );
+    return { jobId: job.id, deduplicated: false };
+  } catch (err: any) {
+    // Carrera con otra entrega simultánea del mismo repo
+    if (err.code === PRISMA_UNIQUE_VIOLATION) {
+      return enqueueIngestJob(owner, repo, branch, options);
+    }
+    throw err;
+  }
+}
+
+/**
+ * [QUEUE] :: CANCEL_PENDING_INGEST_JOB
+ * Descarta el trabajo pendiente de un repo (ej: se archivó antes de
+ * procesar su último push y no debe volver a aparecer).
+ *
+ * @returns true si había un trabajo pendiente.
+ */
+export async function cancelPendingIngestJob(
+  owner: string,
+  repo: string
+): Promise<boolean> {
+  const { count } = await prisma.ingestJob.deleteMany({
+    where: { dedupe_key: dedupeKey(owner, repo), status: STATUS_PENDING },
+  });
+  if (count > 0) {
+    console.log(`[QUEUE] -- CANCELLED     :: ${owner}/${repo}`);
+  }
+  return count > 0;
+}
+
+// =====================================================================
+// [SECTION] :: CLAIM & SETTLE
+// =====================================================================
+
+/**
+ * [QUEUE] :: REQUEUE_JOB
+ * Devuelve un trabajo reclamado a 'pending' recuperando su dedupe_key.
+ * Si mientras corría llegó un push, ya hay otro pendiente para el repo:
+ * ese trabajo (más reciente) lo cubre, así que este se funde en él.
+ *
+ * @param job  - Trabajo reclamado (dedupe_key a NULL).
+ * @param data - Campos a actualizar al reprogramarlo.
+ */
+async function requeueJob(
+  job: Pick<IngestJob, "id" | "owner" | "repo" | "force">,
+  data: { run_at?: Date; last_error?: string }
+): Promise<void> {
+  const key = dedupeKey(job.owner, job.repo);
+
+  const pending = await prisma.ingestJob.findUnique({
+    where: { dedupe_key: key },
+  });
+  if (pending) {
+    try {
+      await prisma.$transaction([
+        prisma.ingestJob.update({
+          where: { id: pending.id },
+          data: { force: pending.force || job.force },
+        }),
+        prisma.ingestJob.delete({ where: { id: job.id } }),
+      ]);
+    } catch (err: any) {
+      // El pendiente se reclamó entre medias: reprogramar este
+      if (err.code === PRISMA_NOT_FOUND) return requeueJob(job, data);
+      throw err;
+    }
+    console.log(
+      `[QUEUE] :: MERGED        :: job: ${job.id} -> ${pending.id} | ${job.owner}/${job.repo}`
+    );
+    return;
+  }
+
+  try {
+    await prisma.ingestJob.update({
+      where: { id: job.id },
+      data: {
+        ...data,
+        status: STATUS_PENDING,
+        locked_at: null,
+        dedupe_key: key,
+      },
+    });
+  } catch (err: any) {
+    // Carrera con un push que acaba de encolar el mismo repo
+    if (err.code === PRISMA_UNIQUE_VIOLATION) return requeueJob(job, data);
+    throw err;
+  }
+}
+
+/**
+ * [QUEUE] :: RELEASE_STALE_JOBS
+ * Devuelve a 'pending' los trabajos cuyo worker murió a mitad.
+ */
+async function releaseStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const stale = await prisma.ingestJob.findMany({
+    where: { status: STATUS_RUNNING, locked_at: { lt: staleBefore } },
+  });
+
+  for (const job of stale) await requeueJob(job, {});
+  if (stale.length > 0) {
+    console.warn(`[WARN]  :: STALE_JOBS    :: released: ${stale.length}`);
+  }
+}
+
+/**
+ * [QUEUE] :: CLAIM_NEXT_JOB
+ * Reclama atómicamente el siguiente trabajo listo. Salta repos con un
+ * trabajo ya en curso y libera su dedupe_key para aceptar nuevos pushes.
+ * El advisory lock por repo (hasta el commit) hace que la comprobación
+ * de 'running' y el reclamo no se crucen entre workers.
+ *
+ * @returns Trabajo reclamado o null si no hay ninguno reclamable.
+ */
+async function claimNextJob(): Promise<IngestJob | null> {
+  return prisma.$transaction(async (tx) => {
+    const candidates = await tx.$queryRaw<
+      Pick<IngestJob, "id" | "owner" | "repo">[]
+    >`
+      SELECT id, owner, repo FROM "IngestJob"
+      WHERE status = ${STATUS_PENDING}
+        AND run_at <= NOW()
+      ORDER BY run_at
+      FOR UPDATE SKIP LOCKED
+      LIMIT ${CLAIM_CANDIDATES}`;
+
+    for (const candidate of candidates) {
+      const key = dedupeKey(candidate.owner, candidate.repo);
+      const [lock] = await tx.$queryRaw<{ locked: boolean }[]>`
+        SELECT pg_try_advisory_xact_lock(hashtext(${key})) AS locked`;
+      if (!lock?.locked) continue; // Otro worker está reclamando este repo
+
+      const running = await tx.ingestJob.count({
+        where: {
+          status: STATUS_RUNNING,
+          owner: { equals: candidate.owner, mode: "insensitive" },
+          repo: { equals: candidate.repo, mode: "insensitive" },
+        },
+      });
+      if (running > 0) continue;
+
+      const rows = await tx.$queryRaw<IngestJob[]>`
+        UPDATE "IngestJob"
+        SET status = ${STATUS_RUNNING},
+            locked_at = NOW(),
+            attempts = attempts + 1,
+            dedupe_key = NULL,
+            "updatedAt" = NOW()
+        WHERE id = ${candidate.id}
+        RETURNING *`;
+      return rows[0] ?? null;
+    }
+
+    return null;
+  });
+}
+
+/**
+ * [QUEUE] :: BACKOFF_DELAY
+ * Espera exponencial con tope según el número de intentos.
+ */
+function backoffDelay(attempts: number): number {
+  return Math.min(
+    BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0),
+    BACKOFF_MAX_MS
+  );
+}
+
+/**
+ * [QUEUE] :: FAIL_JOB
+ * Reprograma con backoff o manda a dead-letter si agotó los intentos.
+ */
+async function failJob(job: IngestJob, message: string): Promise<void> {
+  const lastError = message.slice(0, MAX_ERROR_LENGTH);
+
+  if (job.attempts >= job.max_attempts) {
+    await prisma.ingestJob.update({
+      where: { id: job.id },
+      data: { status: STATUS_DEAD, locked_at: null, last_error: lastError },
+    });
+    console.error(
+      `[ERR]   :: JOB_DEAD      :: job: ${job.id} | ${job.owner}/${job.repo} | attempts: ${job.attempts} | ${lastError}`
+    );
+    return;
+  }
+
+  const delay = backoffDelay(job.attempts);
+  await requeueJob(job, {
+    last_error: lastError,
+    run_at: new Date(Date.now() + delay),
+  });
+  console.warn(
+    `[WARN]  :: JOB_RETRY     :: job: ${job.id} | attempt: ${job.attempts}/${job.max_attempts} | in: ${Math.round(delay / 1000)}s`
+  );
+}
+
+// =====================================================================
+// [SECTION] :: PROCESSING
+// =====================================================================
+
+/**
+ * [QUEUE] :: APPLY_INGEST_RESULT
+ * Persiste la acción devuelta por ingestProject e invalida cachés. El
+ * origen y el commit del trabajo quedan en la revisión guardada.
+ */
+async function applyIngestResult(
+  job: IngestJob,
+  result: IngestResult
+): Promise<void> {
+  switch (result.action) {
+    case "save":
+      if (!result.project) throw new Error("Save action but no project data");
+      await saveProject(result.project, result.fingerprint, {
+        source: job.source,
+        commitSha: job.commit_sha,
+      });
+      await invalidateAllProjectCaches();
+      return;
+
+    case "delete":
+      if (await pruneProject(result.projectId)) {
+        await invalidateAllProjectCaches();
+      }
+      return;
+
+    case "unchanged":
+    case "skip":
+    default:
+      return;
+  }
+}
+
+/**
+ * [QUEUE] :: PROCESS_JOB
+ * Ejecuta un trabajo reclamado y lo cierra como done, retry o dead.
+ */
+async function processJob(job: IngestJob): Promise<void> {
+  console.log(
+    `[QUEUE] >> PROCESSING    :: job: ${job.id} | ${job.owner}/${job.repo} | attempt: ${job.attempts}`
+  );
+
+  try {
+    const octokit = await getOctokitForOwner(job.owner);
+    const result = await ingestProject(
+      job.owner,
+      job.repo,
+      octokit,
+      job.branch,
+      undefined,
+      job.force
+    );
+    await recordIngestRun(job.source, job.owner, job.repo, result, job.id);
+
+    if (result.action === "skip" && result.retryable) {
+      throw new Error(result.reason || "Transient ingestion failure");
+    }
+
+    await applyIngestResult(job, result);
+
+    await prisma.ingestJob.update({
+      where: { id: job.id },
+      data: { status: STATUS_DONE, locked_at: null, last_error: null },
+    });
+    console.log(
+      `[QUEUE] ++ DONE          :: job: ${job.id} | action: ${result.action}`
+    );
+  } catch (err: any) {
+    await failJob(job, err?.message || String(err));
+  }
+}
+
+/**
+ * [QUEUE] :: DRAIN_INGEST_QUEUE
+ * Procesa trabajos listos hasta vaciar la cola. Re-entradas en el mismo
+ * proceso son no-op; entre procesos coordina SKIP LOCKED.
+ *
+ * @param budgetMs - (Optional) No reclamar más trabajos pasado este
+ *                   tiempo (funciones serverless con duración máxima).
+ *
+ * @returns Número de trabajos procesados.
+ */
+export async function drainIngestQueue(budgetMs?: number): Promise<number> {
+  if (draining) return 0;
+  draining = true;
+
+  const deadline = budgetMs ? Date.now() + budgetMs : Infinity;
+  let processed = 0;
+  try {
+    await releaseStaleJobs();
+
+    let job = await claimNextJob();
+    while (job) {
+      await processJob(job);
+      processed++;
+      job = Date.now() < deadline ? await claimNextJob() : null;
+    }
+  } catch (err: any) {
+    console.error(`[ERR]   :: QUEUE_FAIL    :: ${err.message}`);
+  } finally {
+    draining = false;
+  }
+
+  return processed;
+}
@@ -0,0 +1,159 @@
+/**
+ * [MODULE] :: REVIEW_QUEUE
+ * ----------------------------------------------------------------------
+ * Revisión editorial de extracciones. Según NUXT_REVIEW_POLICY:
+ * - off: todo se publica al momento (comportamiento histórico).
+ * - new: los proyectos nuevos entran como 'draft'.
+ * - all: además, los cambios sobre un proyecto ya publicado se guardan
+ *        en `draft` sin tocar la versión pública hasta aprobarlos.
+ * Solo 'published' se sirve en /api/projects.
+ *
+ * @module    server/utils/review
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { jsonColumn, prisma } from "./prisma";
+import { toContentColumns, type ProjectContent } from "./content";
+import { normalizeLockedFields, omitLockedFields } from "./locks";
+import { recordRevision } from "./revisions";
+import type { ProjectStatus } from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: REVIEW_POLICY
+ * Qué extracciones esperan revisión antes de publicarse.
+ */
+export type ReviewPolicy = "off" | "new" | "all";
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const POLICIES: ReviewPolicy[] = ["off", "new", "all"];
+const DEFAULT_POLICY: ReviewPolicy = "off";
+
+export const STATUS_DRAFT: ProjectStatus = "draft";
+export const STATUS_PUBLISHED: ProjectStatus = "published";
+export const STATUS_HIDDEN: ProjectStatus = "hidden";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: GET_REVIEW_POLICY
+ * Lee la política desde runtime config o process.env.
+ */
+export function getReviewPolicy(): ReviewPolicy {
+  let policy = "";
+
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      policy = (useRuntimeConfig()?.reviewPolicy as string) || "";
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+
+  policy = policy || process.env.NUXT_REVIEW_POLICY || DEFAULT_POLICY;
+  if (!POLICIES.includes(policy as ReviewPolicy)) {
+    console.warn(
+      `[WARN]  :: BAD_POLICY    :: NUXT_REVIEW_POLICY='${policy}' -> '${DEFAULT_POLICY}'`
+    );
+    return DEFAULT_POLICY;
+  }
+  return policy as ReviewPolicy;
+}
+
+/**
+ * [CONFIG] :: INITIAL_STATUS
+ * Estado de un proyecto recién ingerido.
+ */
+export function initialStatus(policy = getReviewPolicy()): ProjectStatus {
+  return policy === "off" ? STATUS_PUBLISHED : STATUS_DRAFT;
+}
+
+/**
+ * [CONFIG] :: SHOULD_HOLD_CHANGES
+ * true si los cambios sobre este proyecto deben esperar revisión. Un
+ * 'draft' nunca publicado se actualiza en sitio (no hay versión pública).
+ */
+export function shouldHoldChanges(
+  status: string,
+  policy = getReviewPolicy()
+): boolean {
+  return policy === "all" && status !== STATUS_DRAFT;
+}
+
+// =====================================================================
+// [SECTION] :: EDITORIAL ACTIONS
+// =====================================================================
+
+/**
+ * [PERSIST] :: PUBLISH_PROJECT
+ * Publica el proyecto. Si hay un borrador pendiente, lo aplica antes
+ * (respetando los bloqueos vigentes), lo descarta y registra la revisión.
+ *
+ * @returns Proyecto publicado.
+ * @throws  {Error} - P2025 si el proyecto no existe.
+ */
+export async function publishProject(id: string) {
+  const current = await prisma.project.findUniqueOrThrow({ where: { id } });
+  const draft = (current.draft as ProjectContent | null) ?? {};
+  const content = omitLockedFields(
+    draft as Record<string, unknown>,
+    normalizeLockedFields(current.locked_fields)
+  ) as ProjectContent;
+
+  const project = await prisma.project.update({
+    where: { id },
+    data: {
+      ...toContentColumns(content),
+      status: STATUS_PUBLISHED,
+      draft: jsonColumn(null),
+    },
+  });
+  console.log(
+    `[DB]    ++ PUBLISHED     :: id: ${id} | applied: ${Object.keys(content).join(", ") || "none"}`
+  );
+  await recordRevision(id, current, project, {
+    source: "review",
+    model: current.extractor_version,
+  });
+
+  return project;
+}
+
+/**
+ * [PERSIST] :: DISCARD_DRAFT
+ * Rechaza el borrador pendiente; la versión publicada sigue igual.
+ *
+ * @throws {Error} - P2025 si el proyecto no existe.
+ */
+export async function discardDraft(id: string) {
+  const project = await prisma.project.update({
+    where: { id },
+    data: { draft: jsonColumn(null) },
+  });
+  console.log(`[DB]    -- DRAFT         :: id: ${id} (discarded)`);
+  return project;
+}
+
+/**
+ * [PERSIST] :: SET_PROJECT_STATUS
+ * Cambia el estado sin tocar contenido (ej: ocultar o despublicar).
+ *
+ * @throws {Error} - P2025 si el proyecto no existe.
+ */
+export async function setProjectStatus(id: string, status: ProjectStatus) {
+  const project = await prisma.project.update({
+    where: { id },
+    data: { status },
+  });
+  console.log(`[DB]    ++ STATUS        :: id: ${id} | status: ${status}`);
+  return project;
+}
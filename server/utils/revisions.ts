@@ -0,0 +1,245 @@
+/**
+ * [MODULE] :: PROJECT_REVISIONS
+ * ----------------------------------------------------------------------
+ * Historial de cambios por proyecto. Cada escritura que altera el
+ * contenido (ingesta, edición en /admin, publicación de un borrador o
+ * rollback) guarda una ProjectRevision con los campos cambiados, el
+ * origen (commit del push incluido) y el modelo/prompt que lo generó.
+ * Un rollback restaura el snapshot de una revisión sin re-extraer.
+ *
+ * @module    server/utils/revisions
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  diffProject,
+  pickContent,
+  toContentColumns,
+  type FieldChange,
+  type ProjectContent,
+} from "./content";
+import { normalizeLockedFields } from "./locks";
+import type { IngestSource } from "./runs";
+import type { LockableField } from "../../shared/types";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: REVISION_SOURCE
+ * Quién escribió el cambio: una ingesta (webhook, seed, manual) o el
+ * equipo (admin, review = publicar borrador, rollback).
+ */
+export type RevisionSource = IngestSource | "admin" | "review" | "rollback";
+
+/**
+ * [TYPE] :: REVISION_META
+ * Origen de una escritura.
+ */
+export type RevisionMeta = {
+  source: RevisionSource;
+  commitSha?: string | null;
+  model?: string | null; // extractor_version (prompt + provider:model)
+};
+
+/**
+ * [TYPE] :: ROLLBACK_OPTIONS
+ * `fields` limita el rollback a esos campos (ej: solo description);
+ * `lock` bloquea lo restaurado para que la ingesta no lo vuelva a pisar.
+ */
+export type RollbackOptions = {
+  fields?: LockableField[];
+  lock?: boolean;
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const DEFAULT_LIMIT = 50;
+
+/** Referencia a la versión guardada en los diffs (`to=current`) */
+export const CURRENT_REVISION = "current";
+
+// =====================================================================
+// [SECTION] :: RECORDING
+// =====================================================================
+
+/**
+ * [PERSIST] :: RECORD_REVISION
+ * Guarda una revisión si el contenido cambió. Nunca lanza: un fallo del
+ * historial no debe romper la escritura que lo originó.
+ *
+ * @param projectId - ID del proyecto.
+ * @param before    - Fila previa (null si es un alta).
+ * @param after     - Fila resultante.
+ * @param meta      - Origen del cambio.
+ *
+ * @returns ID de la revisión o null si no hubo cambios (o falló).
+ */
+export async function recordRevision(
+  projectId: string,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  meta: RevisionMeta
+): Promise<string | null> {
+  const snapshot = pickContent(after);
+  const changes = diffProject(before ?? {}, snapshot);
+  if (before && changes.length === 0) return null;
+
+  try {
+    const revision = await prisma.projectRevision.create({
+      data: {
+        project_id: projectId,
+        source: meta.source,
+        commit_sha: meta.commitSha ?? null,
+        model: meta.model ?? null,
+        changed_fields: changes.map((change) => change.field),
+        snapshot: snapshot as Prisma.InputJsonValue,
+      },
+    });
+    console.log(
+      `[DB]    ++ REVISION      :: id: ${projectId} | source: ${meta.source} | changed: ${revision.changed_fields.join(", ") || "none"}`
+    );
+    return revision.id;
+  } catch (err: any) {
+    console.error(`[ERR]   :: REVISION_FAIL :: ${err.message}`);
+    return null;
+  }
+}
+
+// =====================================================================
+// [SECTION] :: QUERIES
+// =====================================================================
+
+/**
+ * [DB] :: LIST_REVISIONS
+ * Revisiones de un proyecto, de la más reciente a la más antigua (sin
+ * snapshot: se pide con el diff).
+ */
+export async function listRevisions(projectId: string, limit = DEFAULT_LIMIT) {
+  return prisma.projectRevision.findMany({
+    where: { project_id: projectId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: {
+      id: true,
+      source: true,
+      commit_sha: true,
+      model: true,
+      changed_fields: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * [DB] :: GET_REVISION_CONTENT
+ * Snapshot de una revisión del proyecto, o el contenido guardado si
+ * `revisionId` es 'current'.
+ *
+ * @returns Contenido o null si no existe.
+ */
+async function getRevisionContent(
+  projectId: string,
+  revisionId: string
+): Promise<ProjectContent | null> {
+  if (revisionId === CURRENT_REVISION) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+    return project ? pickContent(project) : null;
+  }
+
+  const revision = await prisma.projectRevision.findFirst({
+    where: { id: revisionId, project_id: projectId },
+  });
+  return revision ? (revision.snapshot as ProjectContent) : null;
+}
+
+/**
+ * [DIFF] :: DIFF_REVISIONS
+ * Cambios de `from` a `to` (IDs de revisión o 'current').
+ *
+ * @returns Lista de cambios o null si alguna revisión no existe.
+ */
+export async function diffRevisions(
+  projectId: string,
+  from: string,
+  to: string = CURRENT_REVISION
+): Promise<FieldChange[] | null> {
+  const [before, after] = await Promise.all([
+    getRevisionContent(projectId, from),
+    getRevisionContent(projectId, to),
+  ]);
+  if (!before || !after) return null;
+
+  return diffProject(before, after);
+}
+
+// =====================================================================
+// [SECTION] :: ROLLBACK
+// =====================================================================
+
+/**
+ * [PERSIST] :: ROLLBACK_TO_REVISION
+ * Restaura el contenido de una revisión (todos sus campos o solo
+ * `fields`). Lo restaurado se bloquea por defecto: si no, la siguiente
+ * ingesta volvería a escribir el texto que se quería deshacer.
+ *
+ * @returns Proyecto actualizado, o null si la revisión no existe.
+ * @throws  {Error} - P2025 si el proyecto no existe.
+ */
+export async function rollbackToRevision(
+  projectId: string,
+  revisionId: string,
+  options: RollbackOptions = {}
+) {
+  const { lock = true } = options;
+
+  const revision = await prisma.projectRevision.findFirst({
+    where: { id: revisionId, project_id: projectId },
+  });
+  if (!revision) return null;
+
+  const current = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+  });
+  const snapshot = revision.snapshot as ProjectContent;
+
+  // Solo los campos que difieren (y, si se pidieron, solo esos)
+  const fields = diffProject(current, snapshot)
+    .map((change) => change.field)
+    .filter((field) => !options.fields || options.fields.includes(field));
+
+  const content: ProjectContent = {};
+  for (const field of fields) {
+    (content as Record<string, unknown>)[field] = snapshot[field];
+  }
+  // La imagen espejada acompaña a su img_url (sin volver a descargarla)
+  if (fields.includes("img_url")) content.image = snapshot.image ?? null;
+
+  const project = await prisma.project.update({
+    where: { id: projectId },
+    data: {
+      ...toContentColumns(content),
+      locked_fields: lock
+        ? normalizeLockedFields([...current.locked_fields, ...fields])
+        : current.locked_fields,
+    },
+  });
+  console.log(
+    `[DB]    ++ ROLLBACK      :: id: ${projectId} | revision: ${revisionId} | fields: ${fields.join(", ") || "none"}`
+  );
+
+  await recordRevision(projectId, current, project, {
+    source: "rollback",
+    model: revision.model,
+  });
+
+  return project;
+}
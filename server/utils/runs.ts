@@ -0,0 +1,74 @@
+/**
+ * [MODULE] :: INGEST_RUNS
+ * ----------------------------------------------------------------------
+ * Historial persistente de ingestas. Cada intento (webhook, seed o
+ * manual) deja un registro IngestRun con acción, motivo y métricas.
+ *
+ * @module    server/utils/runs
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { jsonColumn, prisma } from "./prisma";
+import type { IngestResult } from "./ingest";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: INGEST_SOURCE
+ * Origen del disparo de la ingesta.
+ */
+export type IngestSource = "webhook" | "seed" | "manual";
+
+// =====================================================================
+// [SECTION] :: PERSISTENCE
+// =====================================================================
+
+/**
+ * [PERSIST] :: RECORD_INGEST_RUN
+ * Guarda el resultado de una ingesta. Nunca lanza: un fallo del historial
+ * no debe romper la ingesta que lo originó.
+ *
+ * @param source - Origen del disparo.
+ * @param owner  - Propietario del repositorio.
+ * @param repo   - Nombre del repositorio.
+ * @param result - Resultado devuelto por ingestProject.
+ * @param jobId  - (Optional) IngestJob que la ejecutó.
+ *
+ * @returns ID del registro creado o null si falló.
+ */
+export async function recordIngestRun(
+  source: IngestSource,
+  owner: string,
+  repo: string,
+  result: IngestResult,
+  jobId?: string
+): Promise<string | null> {
+  try {
+    const run = await prisma.ingestRun.create({
+      data: {
+        source,
+        owner,
+        repo,
+        branch: result.branch ?? "",
+        action: result.action,
+        reason: result.reason ?? null,
+        project_id: result.projectId,
+        duration_ms: result.durationMs ?? 0,
+        model: result.fingerprint?.extractorVersion ?? null,
+        validation_errors: jsonColumn(result.validationErrors),
+        job_id: jobId ?? null,
+      },
+    });
+
+    console.log(
+      `[DB]    ++ RUN_LOGGED    :: id: ${run.id} | ${owner}/${repo} | action: ${result.action}`
+    );
+    return run.id;
+  } catch (err: any) {
+    console.error(`[ERR]   :: RUN_LOG_FAIL  :: ${err.message}`);
+    return null;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * [MODULE] :: PROJECT_SEARCH
+ * ----------------------------------------------------------------------
+ * Búsqueda de texto completo con Postgres sobre los proyectos
+ * publicados. Cada idioma de contenido tiene su propio tsvector con el
+ * stemming de su idioma (title y tech_stack con peso A, tagline B,
+ * description C); un proyecto coincide si coincide en cualquier idioma y
+ * se ordena por el mejor ts_rank.
+ *
+ * El volumen es pequeño (un portfolio), así que los vectores se calculan
+ * al vuelo en lugar de mantener una columna generada.
+ *
+ * @module    server/utils/search
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "./prisma";
+import { toPublicProject } from "./content";
+import { STATUS_PUBLISHED } from "./review";
+import type { ProjectSearchResult } from "../../shared/types";
+import {
+  CONTENT_LOCALE_CODES,
+  type CatalogLocale,
+  type ContentLocale,
+} from "../../shared/locales";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: SEARCH_OPTIONS
+ * Filtros y tamaño de la búsqueda.
+ */
+export type SearchOptions = {
+  limit: number;
+  primaryTech?: string;
+};
+
+/**
+ * [TYPE] :: SEARCH_ROW
+ * Fila devuelta por la consulta FTS.
+ */
+type SearchRow = {
+  id: string;
+  rank: number;
+} & Record<string, unknown>;
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+/** Configuración de text search de Postgres por idioma */
+const TS_CONFIGS: Record<CatalogLocale, string> = {
+  en: "english",
+  es: "spanish",
+  fr: "french",
+  de: "german",
+  pt: "portuguese",
+  it: "italian",
+};
+const TS_CONFIG_FALLBACK = "simple";
+
+/**
+ * Marcadores de ts_headline. Se sustituyen por <mark> después de escapar
+ * el HTML del texto (el contenido viene de READMEs de terceros).
+ */
+const MARK_START = "⟦";
+const MARK_STOP = "⟧";
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_STOP}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: SNIPPET_COLUMN
+ * Alias SQL del fragmento de un idioma.
+ */
+function snippetColumn(code: ContentLocale): string {
+  return `snippet_${code}`;
+}
+
+/**
+ * [UTIL] :: TO_SAFE_SNIPPET
+ * Escapa el HTML del fragmento y convierte los marcadores en <mark>.
+ */
+function toSafeSnippet(raw: unknown): string {
+  return String(raw ?? "")
+    .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!)
+    .replaceAll(MARK_START, "<mark>")
+    .replaceAll(MARK_STOP, "</mark>");
+}
+
+/**
+ * [SQL] :: BUILD_SEARCH_SQL
+ * Consulta FTS para los idiomas activos. Parámetros: $1 = texto,
+ * $2 = límite, $3 = estado, $4 = primary_tech (opcional). Las
+ * configuraciones y códigos de idioma son constantes, nunca input.
+ */
+function buildSearchSql(withTech: boolean): string {
+  const languages = CONTENT_LOCALE_CODES.map((code) => ({
+    code,
+    config: TS_CONFIGS[code] ?? TS_CONFIG_FALLBACK,
+  }));
+
+  const vectors = languages.map(
+    ({ code, config }) => `
+        setweight(to_tsvector('${config}', coalesce(p.title, '')), 'A') ||
+        setweight(to_tsvector('${config}', array_to_string(p.tech_stack, ' ')), 'A') ||
+        setweight(to_tsvector('${config}', coalesce(p.tagline->>'${code}', '')), 'B') ||
+        setweight(to_tsvector('${config}', coalesce(p.description->>'${code}', '')), 'C')
+          AS doc_${code},
+        websearch_to_tsquery('${config}', $1) AS query_${code}`
+  );
+  const matches = languages.map(
+    ({ code }) => `s.doc_${code} @@ s.query_${code}`
+  );
+  const ranks = languages.map(
+    ({ code }) => `ts_rank(s.doc_${code}, s.query_${code})`
+  );
+  const snippets = languages.map(
+    ({ code, config }) =>
+      `ts_headline('${config}', coalesce(p.description->>'${code}', ''), s.query_${code}, '${HEADLINE_OPTIONS}') AS ${snippetColumn(code)}`
+  );
+
+  return `
+    SELECT p.*, GREATEST(${ranks.join(", ")}) AS rank, ${snippets.join(", ")}
+    FROM "Project" p,
+    LATERAL (SELECT ${vectors.join(",")}) s
+    WHERE p.status = $3
+      AND (${matches.join(" OR ")})
+      ${withTech ? "AND lower(p.primary_tech) = lower($4)" : ""}
+    ORDER BY rank DESC, p."updatedAt" DESC
+    LIMIT $2`;
+}
+
+// =====================================================================
+// [SECTION] :: SEARCH
+// =====================================================================
+
+/**
+ * [SEARCH] :: SEARCH_PROJECTS
+ * Busca en title, tech_stack y tagline/description de cada idioma
+ * (sintaxis de buscador web: "frase exacta", -excluir, OR).
+ *
+ * @param text    - Texto de búsqueda.
+ * @param options - Límite y filtro opcional por tecnología principal.
+ *
+ * @returns Proyectos publicados ordenados por relevancia.
+ */
+export async function searchProjects(
+  text: string,
+  options: SearchOptions
+): Promise<ProjectSearchResult[]> {
+  const params: unknown[] = [text, options.limit, STATUS_PUBLISHED];
+  if (options.primaryTech) params.push(options.primaryTech);
+
+  const rows = await prisma.$queryRawUnsafe<SearchRow[]>(
+    buildSearchSql(!!options.primaryTech),
+    ...params
+  );
+
+  const results: ProjectSearchResult[] = [];
+  for (const row of rows) {
+    const snippet = Object.fromEntries(
+      CONTENT_LOCALE_CODES.map((code) => [
+        code,
+        toSafeSnippet(row[snippetColumn(code)]),
+      ])
+    ) as ProjectSearchResult["snippet"];
+
+    results.push({
+      ...toPublicProject(row),
+      rank: Number(row.rank),
+      snippet,
+    });
+  }
+
+  console.log(
+    `[SRCH]  :: QUERY         :: q: "${text}" | results: ${results.length}`
+  );
+  return results;
+}
@@ -0,0 +1,194 @@
+/**
+ * [MODULE] :: TECH_STATS
+ * ----------------------------------------------------------------------
+ * Estadísticas de tecnologías sobre los proyectos publicados: el menú
+ * de tecnologías principales con su número de proyectos, y el detalle
+ * de cuántos proyectos usan cada una (como principal y en el stack),
+ * cuándo se usaron por primera y última vez, cobertura por categoría y
+ * matriz de co-ocurrencia (qué tecnologías aparecen juntas). Los nombres
+ * pasan por el registro de tecnologías, así que las variantes se funden.
+ *
+ * El volumen es pequeño (un portfolio): cada cálculo es una sola
+ * consulta y el resto se hace en memoria.
+ *
+ * @module    server/utils/stats
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { prisma } from "./prisma";
+import { STATUS_PUBLISHED } from "./review";
+import type { TechCount, TechStat, TechStats } from "../../shared/types";
+import {
+  TECH_CATEGORIES,
+  canonicalTech,
+  canonicalTechStack,
+  getTechInfo,
+  type TechCategory,
+} from "../../shared/techs";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: TECH_ACCUMULATOR
+ * Uso de una tecnología mientras se recorren los proyectos.
+ */
+type TechAccumulator = {
+  primary: number;
+  stack: number;
+  first: Date;
+  last: Date;
+};
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [UTIL] :: USAGE_WEIGHT
+ * Proyectos que usan la tecnología en cualquier papel (para ordenar).
+ */
+function usageWeight(stat: TechStat): number {
+  return stat.primary_count + stat.stack_count;
+}
+
+// =====================================================================
+// [SECTION] :: TECH MENU
+// =====================================================================
+
+/**
+ * [STATS] :: COUNT_PRIMARY_TECHS
+ * Tecnologías principales de los proyectos publicados con su número de
+ * proyectos, en una sola consulta. Las variantes ("Vue.js", "vue") se
+ * funden sin distinguir mayúsculas bajo el nombre canónico; si la
+ * tecnología no está en el registro, gana la escritura más usada.
+ *
+ * @returns Tecnologías ordenadas por nombre.
+ */
+export async function countPrimaryTechs(): Promise<TechCount[]> {
+  const groups = await prisma.project.groupBy({
+    by: ["primary_tech"],
+    where: { status: STATUS_PUBLISHED },
+    _count: { _all: true },
+  });
+
+  const merged = new Map<string, TechCount & { best: number }>();
+
+  for (const group of groups) {
+    const name = canonicalTech(group.primary_tech);
+    if (!name) continue;
+
+    const count = group._count._all;
+    const key = name.toLowerCase();
+    const entry = merged.get(key);
+
+    if (!entry) {
+      merged.set(key, { name, count, best: count });
+    } else {
+      entry.count += count;
+      if (count > entry.best) {
+        entry.name = name;
+        entry.best = count;
+      }
+    }
+  }
+
+  return [...merged.values()]
+    .map(({ name, count }) => ({ name, count }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// =====================================================================
+// [SECTION] :: STATS
+// =====================================================================
+
+/**
+ * [STATS] :: GET_TECH_STATS
+ * Calcula las estadísticas de tecnologías de los proyectos publicados.
+ *
+ * @returns Uso por tecnología (de la más usada a la menos), cobertura
+ *          por categoría y matriz de co-ocurrencia.
+ */
+export async function getTechStats(): Promise<TechStats> {
+  const projects = await prisma.project.findMany({
+    where: { status: STATUS_PUBLISHED },
+    select: {
+      primary_tech: true,
+      tech_stack: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  const usage = new Map<string, TechAccumulator>();
+  const projectTechs: string[][] = [];
+  const categories = Object.fromEntries(
+    TECH_CATEGORIES.map((category) => [category, 0])
+  ) as Record<TechCategory, number>;
+
+  for (const project of projects) {
+    const primary = canonicalTech(project.primary_tech);
+    const stack = canonicalTechStack(project.tech_stack);
+    // Principal + stack, sin duplicados
+    const techs = canonicalTechStack([primary, ...stack]);
+    projectTechs.push(techs);
+
+    for (const tech of techs) {
+      const entry = usage.get(tech) ?? {
+        primary: 0,
+        stack: 0,
+        first: project.createdAt,
+        last: project.updatedAt,
+      };
+      if (tech === primary) entry.primary++;
+      if (stack.includes(tech)) entry.stack++;
+      if (project.createdAt < entry.first) entry.first = project.createdAt;
+      if (project.updatedAt > entry.last) entry.last = project.updatedAt;
+      usage.set(tech, entry);
+    }
+
+    const used = new Set(techs.map((tech) => getTechInfo(tech).category));
+    for (const category of TECH_CATEGORIES) {
+      if (used.has(category)) categories[category]++;
+    }
+  }
+
+  // De la más usada a la menos (en cualquier papel); a igualdad, por nombre
+  const techs: TechStat[] = [...usage.entries()]
+    .map(([name, entry]) => ({
+      name,
+      category: getTechInfo(name).category,
+      primary_count: entry.primary,
+      stack_count: entry.stack,
+      first_used: entry.first.toISOString(),
+      last_used: entry.last.toISOString(),
+    }))
+    .sort(
+      (a, b) => usageWeight(b) - usageWeight(a) || a.name.localeCompare(b.name)
+    );
+
+  // Matriz de co-ocurrencia en el mismo orden que `techs`
+  const names = techs.map((tech) => tech.name);
+  const index = new Map(names.map((name, i) => [name, i]));
+  const matrix = names.map(() => names.map(() => 0));
+
+  for (const techList of projectTechs) {
+    const ids = techList.map((tech) => index.get(tech)!);
+    for (const i of ids) {
+      for (const j of ids) matrix[i]![j]!++;
+    }
+  }
+
+  console.log(
+    `[STATS] :: TECHS         :: projects: ${projects.length} | techs: ${names.length}`
+  );
+
+  return {
+    total_projects: projects.length,
+    techs,
+    categories,
+    cooccurrence: { techs: names, matrix },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * [MODULE] :: MEDIA_STORAGE
+ * ----------------------------------------------------------------------
+ * Almacenamiento de imágenes espejadas. Dos drivers:
+ * - local:     disco (NUXT_MEDIA_DIR, default .data/media).
+ * - unstorage: montaje 'media' de Nitro (S3, R2, Redis... vía
+ *              nitro.storage en nuxt.config). Solo dentro de Nitro.
+ * Los ficheros se sirven en /media/** salvo que NUXT_MEDIA_PUBLIC_URL
+ * apunte a un CDN delante del bucket.
+ *
+ * @module    server/utils/storage
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import { createStorage, type Storage } from "unstorage";
+import fsDriver from "unstorage/drivers/fs";
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+/**
+ * [TYPE] :: MEDIA_DRIVER
+ * Backends de almacenamiento disponibles.
+ */
+export type MediaDriver = "local" | "unstorage";
+
+/**
+ * [TYPE] :: MEDIA_CONFIG
+ * Configuración resuelta del almacenamiento.
+ */
+export type MediaConfig = {
+  driver: MediaDriver;
+  dir: string;
+  publicUrl: string;
+};
+
+// =====================================================================
+// [SECTION] :: CONSTANTS
+// =====================================================================
+
+const DRIVER_LOCAL: MediaDriver = "local";
+const DRIVER_UNSTORAGE: MediaDriver = "unstorage";
+
+const DEFAULT_MEDIA_DIR = ".data/media";
+const DEFAULT_PUBLIC_URL = "/media";
+const NITRO_MOUNT = "media";
+
+let localStorage: Storage | null = null;
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: GET_MEDIA_CONFIG
+ * Resuelve driver, directorio y URL pública desde runtime config o env.
+ */
+export function getMediaConfig(): MediaConfig {
+  let runtimeMedia: Partial<MediaConfig> = {};
+
+  try {
+    if (typeof useRuntimeConfig === "function") {
+      runtimeMedia = (useRuntimeConfig()?.media as Partial<MediaConfig>) || {};
+    }
+  } catch {
+    // No en contexto Nuxt, pasar a variables de entorno
+  }
+
+  return {
+    driver: (runtimeMedia.driver ||
+      process.env.NUXT_MEDIA_DRIVER ||
+      DRIVER_LOCAL) as MediaDriver,
+    dir: runtimeMedia.dir || process.env.NUXT_MEDIA_DIR || DEFAULT_MEDIA_DIR,
+    publicUrl: (
+      runtimeMedia.publicUrl ||
+      process.env.NUXT_MEDIA_PUBLIC_URL ||
+      DEFAULT_PUBLIC_URL
+    ).replace(/\/+$/, ""),
+  };
+}
+
+// =====================================================================
+// [SECTION] :: STORAGE
+// =====================================================================
+
+/**
+ * [FACTORY] :: GET_MEDIA_STORAGE
+ * Instancia del almacenamiento configurado.
+ *
+ * @returns Storage de unstorage.
+ * @throws  {Error} - Si el driver no existe o 'unstorage' se usa fuera de Nitro.
+ */
+export function getMediaStorage(config = getMediaConfig()): Storage {
+  switch (config.driver) {
+    case DRIVER_LOCAL:
+      localStorage ??= createStorage({
+        driver: fsDriver({ base: config.dir }),
+      });
+      return localStorage;
+
+    case DRIVER_UNSTORAGE:
+      if (typeof useStorage !== "function") {
+        throw new Error(
+          "NUXT_MEDIA_DRIVER=unstorage requires the Nitro runtime (use 'local' in scripts)"
+        );
+      }
+      return useStorage(NITRO_MOUNT);
+
+    default:
+      throw new Error(`Unknown media driver: ${config.driver}`);
+  }
+}
+
+/**
+ * [UTIL] :: MEDIA_URL
+ * URL pública de una clave del almacenamiento.
+ */
+export function mediaUrl(key: string, config = getMediaConfig()): string {
+  return `${config.publicUrl}/${key}`;
+}
@@ -0,0 +1,117 @@
+/**
+ * [MODULE] :: CONTENT_LOCALES
+ * ----------------------------------------------------------------------
+ * Fuente única de los idiomas de contenido de TinyShow.
+ * Alimenta el esquema Zod, el prompt de extracción, i18n y la UI.
+ * Para añadir un idioma: incluir su código en CONTENT_LOCALE_CODES y
+ * crear `i18n/locales/<code>.json`.
+ *
+ * @module    shared/locales
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+// =====================================================================
+// [SECTION] :: CATALOG
+// =====================================================================
+
+/**
+ * Idiomas soportados (metadatos para i18n y para el prompt de la IA).
+ */
+export const LOCALE_CATALOG = {
+  en: { language: "en-US", name: "English" },
+  es: { language: "es-ES", name: "Spanish" },
+  fr: { language: "fr-FR", name: "French" },
+  de: { language: "de-DE", name: "German" },
+  pt: { language: "pt-PT", name: "Portuguese" },
+  it: { language: "it-IT", name: "Italian" },
+} as const;
+
+export type CatalogLocale = keyof typeof LOCALE_CATALOG;
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+/**
+ * [CONFIG] :: CONTENT_LOCALE_CODES
+ * Idiomas activos. El primero es el idioma por defecto y de fallback.
+ */
+export const CONTENT_LOCALE_CODES = [
+  "en",
+  "es",
+] as const satisfies readonly CatalogLocale[];
+
+export type ContentLocale = (typeof CONTENT_LOCALE_CODES)[number];
+
+export const DEFAULT_CONTENT_LOCALE: ContentLocale = CONTENT_LOCALE_CODES[0];
+
+/**
+ * Idiomas activos con sus metadatos, listos para i18n.
+ */
+export const CONTENT_LOCALES = CONTENT_LOCALE_CODES.map((code) => ({
+  code,
+  ...LOCALE_CATALOG[code],
+}));
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [CHECK] :: IS_CONTENT_LOCALE
+ * Type guard para códigos de idioma arbitrarios (ej: `locale.value`).
+ */
+export function isContentLocale(code: string): code is ContentLocale {
+  return (CONTENT_LOCALE_CODES as readonly string[]).includes(code);
+}
+
+/**
+ * [I18N] :: PICK_LOCALIZED
+ * Devuelve el texto en el idioma pedido con fallback al idioma por defecto
+ * y, en último caso, al primer valor disponible.
+ *
+ * @param text   - Objeto localizado (puede venir incompleto de la BD).
+ * @param locale - Código de idioma solicitado.
+ *
+ * @returns Texto localizado o cadena vacía.
+ */
+export function pickLocalized(
+  text: Partial<Record<string, string>> | null | undefined,
+  locale: string
+): string {
+  if (!text) return "";
+  return (
+    text[locale] ||
+    text[DEFAULT_CONTENT_LOCALE] ||
+    Object.values(text).find(Boolean) ||
+    ""
+  );
+}
+
+/**
+ * [I18N] :: FILL_MISSING_LOCALES
+ * Completa los idiomas activos que falten usando pickLocalized.
+ * Permite servir filas antiguas (solo en/es) con la forma actual.
+ *
+ * @param text - Objeto localizado guardado.
+ *
+ * @returns Objeto con todas las claves de CONTENT_LOCALE_CODES.
+ */
+export function fillMissingLocales(
+  text: Partial<Record<string, string>> | null | undefined
+): Record<ContentLocale, string> {
+  return Object.fromEntries(
+    CONTENT_LOCALE_CODES.map((code) => [code, pickLocalized(text, code)])
+  ) as Record<ContentLocale, string>;
+}
+
+/**
+ * [I18N] :: MISSING_LOCALES
+ * Idiomas activos sin texto en un objeto localizado (para el backfill).
+ */
+export function missingLocales(
+  text: Partial<Record<string, string>> | null | undefined
+): ContentLocale[] {
+  return CONTENT_LOCALE_CODES.filter((code) => !text?.[code]);
+}
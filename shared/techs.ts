@@ -0,0 +1,304 @@
+/**
+ * [MODULE] :: TECH_REGISTRY
+ * ----------------------------------------------------------------------
+ * Fuente única de las tecnologías de TinyShow: nombre canónico, alias
+ * (variantes de la IA, paquetes npm, badges), categoría, icono de
+ * @nuxt/icon y color de display. La ingesta normaliza `primary_tech` y
+ * `tech_stack` con ella ("Vue.js", "VueJS" -> "Vue") y la API y la UI
+ * leen de aquí los metadatos.
+ * Para añadir una tecnología: una entrada en TECH_REGISTRY.
+ *
+ * @module    shared/techs
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+// =====================================================================
+// [SECTION] :: TYPES
+// =====================================================================
+
+export const TECH_CATEGORIES = [
+  "framework",
+  "language",
+  "styling",
+  "tooling",
+] as const;
+
+export type TechCategory = (typeof TECH_CATEGORIES)[number];
+
+/**
+ * [TYPE] :: TECH_DEFINITION
+ * Entrada del registro (el nombre canónico es la clave).
+ */
+type TechDefinition = {
+  aliases: string[];
+  category: TechCategory;
+  icon: string; // Iconify id para <Icon> (ej: 'logos:vue')
+  color: string; // Color de marca en hex
+};
+
+/**
+ * [TYPE] :: TECH_INFO
+ * Metadatos de una tecnología. Las que no están en el registro se
+ * devuelven con su nombre y sin categoría, icono ni color.
+ */
+export type TechInfo = {
+  name: string;
+  category: TechCategory | null;
+  icon: string | null;
+  color: string | null;
+};
+
+// =====================================================================
+// [SECTION] :: REGISTRY
+// =====================================================================
+
+/**
+ * Registro canónico. El orden importa: el extractor heurístico recorre
+ * los alias en este orden.
+ */
+export const TECH_REGISTRY: Record<string, TechDefinition> = {
+  Nuxt: {
+    aliases: ["nuxt", "nuxt.js", "nuxtjs", "@nuxt"],
+    category: "framework",
+    icon: "logos:nuxt-icon",
+    color: "#00DC82",
+  },
+  "Next.js": {
+    aliases: ["next", "next.js", "nextjs"],
+    category: "framework",
+    icon: "logos:nextjs-icon",
+    color: "#000000",
+  },
+  Astro: {
+    aliases: ["astro"],
+    category: "framework",
+    icon: "logos:astro-icon",
+    color: "#BC52EE",
+  },
+  SvelteKit: {
+    aliases: ["sveltekit", "@sveltejs/kit"],
+    category: "framework",
+    icon: "logos:svelte-icon",
+    color: "#FF3E00",
+  },
+  Remix: {
+    aliases: ["remix", "@remix-run"],
+    category: "framework",
+    icon: "logos:remix-icon",
+    color: "#121212",
+  },
+  Angular: {
+    aliases: ["angular", "@angular/core"],
+    category: "framework",
+    icon: "logos:angular-icon",
+    color: "#DD0031",
+  },
+  Vue: {
+    aliases: ["vue", "vue.js", "vuejs"],
+    category: "framework",
+    icon: "logos:vue",
+    color: "#42B883",
+  },
+  React: {
+    aliases: ["react", "react.js", "reactjs"],
+    category: "framework",
+    icon: "logos:react",
+    color: "#61DAFB",
+  },
+  Svelte: {
+    aliases: ["svelte"],
+    category: "framework",
+    icon: "logos:svelte-icon",
+    color: "#FF3E00",
+  },
+  Solid: {
+    aliases: ["solid-js", "solidjs"],
+    category: "framework",
+    icon: "logos:solidjs-icon",
+    color: "#2C4F7C",
+  },
+  Express: {
+    aliases: ["express", "express.js"],
+    category: "framework",
+    icon: "logos:express",
+    color: "#000000",
+  },
+  NestJS: {
+    aliases: ["nestjs", "@nestjs/core"],
+    category: "framework",
+    icon: "logos:nestjs",
+    color: "#E0234E",
+  },
+  TypeScript: {
+    aliases: ["typescript", "ts"],
+    category: "language",
+    icon: "logos:typescript-icon",
+    color: "#3178C6",
+  },
+  JavaScript: {
+    aliases: ["javascript", "js"],
+    category: "language",
+    icon: "logos:javascript",
+    color: "#F7DF1E",
+  },
+  "Node.js": {
+    aliases: ["node", "node.js", "nodejs"],
+    category: "tooling",
+    icon: "logos:nodejs-icon",
+    color: "#5FA04E",
+  },
+  Python: {
+    aliases: ["python"],
+    category: "language",
+    icon: "logos:python",
+    color: "#3776AB",
+  },
+  Tailwind: {
+    aliases: ["tailwind", "tailwindcss", "tailwind css"],
+    category: "styling",
+    icon: "logos:tailwindcss-icon",
+    color: "#06B6D4",
+  },
+  Sass: {
+    aliases: ["sass", "scss"],
+    category: "styling",
+    icon: "logos:sass",
+    color: "#CC6699",
+  },
+  GSAP: {
+    aliases: ["gsap"],
+    category: "tooling",
+    icon: "logos:greensock-icon",
+    color: "#88CE02",
+  },
+  "Three.js": {
+    aliases: ["three", "three.js", "threejs"],
+    category: "framework",
+    icon: "logos:threejs",
+    color: "#000000",
+  },
+  Vite: {
+    aliases: ["vite", "vitejs"],
+    category: "tooling",
+    icon: "logos:vitejs",
+    color: "#646CFF",
+  },
+  Pinia: {
+    aliases: ["pinia"],
+    category: "tooling",
+    icon: "logos:pinia",
+    color: "#FFD859",
+  },
+  Prisma: {
+    aliases: ["prisma", "@prisma/client"],
+    category: "tooling",
+    icon: "logos:prisma",
+    color: "#2D3748",
+  },
+  Supabase: {
+    aliases: ["supabase", "@supabase/supabase-js"],
+    category: "tooling",
+    icon: "logos:supabase-icon",
+    color: "#3FCF8E",
+  },
+  Firebase: {
+    aliases: ["firebase"],
+    category: "tooling",
+    icon: "logos:firebase",
+    color: "#FFCA28",
+  },
+  PostgreSQL: {
+    aliases: ["postgres", "postgresql"],
+    category: "tooling",
+    icon: "logos:postgresql",
+    color: "#4169E1",
+  },
+  MongoDB: {
+    aliases: ["mongodb", "mongoose"],
+    category: "tooling",
+    icon: "logos:mongodb-icon",
+    color: "#47A248",
+  },
+  Docker: {
+    aliases: ["docker"],
+    category: "tooling",
+    icon: "logos:docker-icon",
+    color: "#2496ED",
+  },
+  Zod: {
+    aliases: ["zod"],
+    category: "tooling",
+    icon: "logos:zod",
+    color: "#3E67B1",
+  },
+};
+
+/** Alias en minúsculas -> nombre canónico (incluye el propio nombre) */
+export const TECH_ALIAS_INDEX = new Map<string, string>(
+  Object.entries(TECH_REGISTRY).flatMap(([name, { aliases }]) =>
+    [name, ...aliases].map((alias) => [alias.toLowerCase(), name] as const)
+  )
+);
+
+/** Sufijo de versión que la IA a veces añade ("Vue 3", "Nuxt v4.1") */
+const VERSION_SUFFIX_REGEX = /\s+v?\d+(\.\d+)*$/i;
+
+// =====================================================================
+// [SECTION] :: HELPERS
+// =====================================================================
+
+/**
+ * [NORMALIZE] :: CANONICAL_TECH
+ * Nombre canónico de una tecnología. Prueba el nombre tal cual y sin
+ * sufijo de versión; si no está registrada, la devuelve recortada.
+ *
+ * @param name - Nombre libre (IA, manifest o edición manual).
+ *
+ * @returns Nombre canónico o el original sin espacios sobrantes.
+ */
+export function canonicalTech(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  const alias = trimmed.toLowerCase();
+
+  return (
+    TECH_ALIAS_INDEX.get(alias) ??
+    TECH_ALIAS_INDEX.get(alias.replace(VERSION_SUFFIX_REGEX, "")) ??
+    trimmed
+  );
+}
+
+/**
+ * [NORMALIZE] :: CANONICAL_TECH_STACK
+ * Normaliza un stack: nombres canónicos, sin vacíos ni duplicados (sin
+ * distinguir mayúsculas), en el orden original.
+ */
+export function canonicalTechStack(stack: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of stack) {
+    const name = canonicalTech(raw);
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+    result.push(name);
+  }
+  return result;
+}
+
+/**
+ * [LOOKUP] :: GET_TECH_INFO
+ * Metadatos de una tecnología (por nombre canónico o alias).
+ */
+export function getTechInfo(name: string): TechInfo {
+  const canonical = canonicalTech(name);
+  const definition = TECH_REGISTRY[canonical];
+
+  return {
+    name: canonical,
+    category: definition?.category ?? null,
+    icon: definition?.icon ?? null,
+    color: definition?.color ?? null,
+  };
+}
@@ -10,22 +10,29 @@
  */
 
 import { z } from "zod";
+import { CONTENT_LOCALE_CODES, type ContentLocale } from "./locales";
+import { canonicalTech, canonicalTechStack, type TechCategory } from "./techs";
+
+/** Códigos activos en mayúsculas para las descripciones del esquema */
+const LOCALE_LABEL = CONTENT_LOCALE_CODES.join(", ").toUpperCase();
 
 // =====================================================================
 // [SECTION] :: SCHEMAS
 // =====================================================================
 
-export const LocalizedText = z.object({
-  en: z.string(),
-  es: z.string(),
-});
+/** Un string por idioma activo (ver shared/locales) */
+export const LocalizedText = z.object(
+  Object.fromEntries(
+    CONTENT_LOCALE_CODES.map((code) => [code, z.string()])
+  ) as Record<ContentLocale, z.ZodString>
+);
 
 export const ProjectSchema = z.object({
   id: z.string().describe("Generated from repo name"),
   title: z.string().describe("Punchy, short title"),
-  tagline: LocalizedText.describe("One-liner vendor in EN and ES"),
+  tagline: LocalizedText.describe(`One-liner vendor in ${LOCALE_LABEL}`),
   description: LocalizedText.describe(
-    "Emotional summary of the project in EN and ES"
+    `Emotional summary of the project in ${LOCALE_LABEL}`
   ),
   tech_stack: z.array(z.string()).describe("e.g. Vue, Tailwind"),
   primary_tech: z
@@ -53,15 +60,267 @@ export const ProjectSchema = z.object({
     .describe("Origin of the project if it's from a course"),
 });
 
+/**
+ * Manifest in-repo (`tinyshow.json`, `tinyshow.yaml` o front-matter del README).
+ * Cualquier campo de ProjectSchema es opcional y prevalece sobre la IA,
+ * salvo `id` y `repo_url`: los fija el repo (si no, un manifest podría
+ * escribir sobre otro proyecto). Se descartan al validar.
+ * Los textos localizados admiten idiomas sueltos (ej: solo `en`).
+ */
+export const ProjectManifestSchema = ProjectSchema.omit({
+  id: true,
+  repo_url: true,
+})
+  .partial()
+  .extend({
+    tagline: LocalizedText.partial().optional(),
+    description: LocalizedText.partial().optional(),
+    hidden: z
+      .boolean()
+      .optional()
+      .describe("Equivalente a <!-- tinyshow:hidden -->"),
+  });
+
+/**
+ * Imagen espejada y procesada durante la ingesta (no la produce el
+ * extractor). `lqip` es un data URI diminuto para el placeholder.
+ */
+export const ProjectImageSchema = z.object({
+  src: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  dominant_color: z.string(),
+  lqip: z.string(),
+  source_url: z.string(),
+  variants: z.array(
+    z.object({
+      src: z.string(),
+      width: z.number().int(),
+      height: z.number().int(),
+    })
+  ),
+});
+
+/**
+ * Campos que se pueden bloquear tras una corrección manual. Un campo
+ * bloqueado es "curado": la ingesta no lo sobrescribe. El resto los
+ * genera la extracción (IA, heurística o manifest).
+ */
+export const LOCKABLE_FIELDS = [
+  "title",
+  "tagline",
+  "description",
+  "tech_stack",
+  "primary_tech",
+  "img_url",
+  "demo_url",
+  "origin",
+] as const;
+
+export const LockableFieldSchema = z.enum(LOCKABLE_FIELDS);
+
+/**
+ * Estado editorial. Solo 'published' se sirve en el escaparate; 'draft'
+ * espera revisión y 'hidden' se retira a mano sin borrar el proyecto.
+ */
+export const PROJECT_STATUSES = ["draft", "published", "hidden"] as const;
+
+export const ProjectStatusSchema = z.enum(PROJECT_STATUSES);
+
+/**
+ * Orden del listado público. 'manual' = fijados primero, luego
+ * `sort_order` ascendente y, a igualdad, los más recientes.
+ */
+export const PROJECT_SORTS = ["manual", "updated", "created", "title"] as const;
+
+export const ProjectSortSchema = z.enum(PROJECT_SORTS);
+
+/** Lista en un query param: `a,b` o repetido (`?x=a&x=b`), sin duplicados */
+const QueryListSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    [
+      ...new Set(
+        [value]
+          .flat()
+          .flatMap((item) => item.split(","))
+          .map((item) => item.trim())
+          .filter(Boolean)
+      ),
+    ].sort()
+  );
+
+/**
+ * Lista de tecnologías en un query param: nombres canónicos (alias y
+ * mayúsculas dan igual), como los guarda la ingesta en `tech_stack`
+ */
+const QueryTechListSchema = QueryListSchema.transform((list) =>
+  canonicalTechStack(list).sort()
+);
+
+/** Booleano en un query param (`true` | `false`) */
+const QueryBooleanSchema = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+/** Tecnología en un query param: un único valor, con su nombre canónico */
+const QueryTechSchema = z.string().trim().min(1).transform(canonicalTech);
+
+/** Origen del proyecto: de un curso o personal (sin curso) */
+export const PROJECT_ORIGINS = ["course", "personal"] as const;
+
+/**
+ * Filtros combinables de /api/projects. `tech_any` = usa alguna de las
+ * tecnologías, `tech_all` = las usa todas (por nombre canónico);
+ * `author` busca dentro del autor del curso.
+ */
+export const ProjectFiltersSchema = z.object({
+  primary_tech: z.string().trim().min(1).optional(),
+  tech_any: QueryTechListSchema.optional(),
+  tech_all: QueryTechListSchema.optional(),
+  origin: z.enum(PROJECT_ORIGINS).optional(),
+  author: z.string().trim().min(1).optional(),
+  has_demo: QueryBooleanSchema.optional(),
+  has_image: QueryBooleanSchema.optional(),
+  updated_since: z.coerce.date().optional(),
+});
+
+/**
+ * Filtros de /api/projects/search. Un `primary_tech` repetido llega como
+ * lista y es inválido (400), no un filtro vacío.
+ */
+export const ProjectSearchFiltersSchema = z.object({
+  primary_tech: QueryTechSchema.optional(),
+});
+
+/** Campos de escaparate que decide el equipo (la ingesta no los toca) */
+export const ProjectCurationSchema = z.object({
+  sort_order: z.number().int().describe("Ascending position in lists"),
+  featured: z.boolean().describe("Shown in the hero featured row"),
+  pinned: z.boolean().describe("Kept on top of its tech list"),
+});
+
 // =====================================================================
 // [SECTION] :: TYPES
 // =====================================================================
 
-/** Texto localizado en inglés y español */
+/** Texto localizado en todos los idiomas activos */
 export type LocalizedTextType = z.infer<typeof LocalizedText>;
 
 /** Información de origen del proyecto (curso, bootcamp, etc.) */
 export type OriginType = z.infer<typeof ProjectSchema.shape.origin>;
 
-/** Tipo completo de proyecto */
-export type Project = z.infer<typeof ProjectSchema>;
+/** Imagen procesada (variantes, dimensiones, color y placeholder) */
+export type ProjectImage = z.infer<typeof ProjectImageSchema>;
+
+/** Campo bloqueable frente a la re-ingesta */
+export type LockableField = z.infer<typeof LockableFieldSchema>;
+
+/** Estado editorial del proyecto */
+export type ProjectStatus = z.infer<typeof ProjectStatusSchema>;
+
+/** Orden del listado público */
+export type ProjectSort = z.infer<typeof ProjectSortSchema>;
+
+/** Filtros del listado público ya validados */
+export type ProjectFilters = z.infer<typeof ProjectFiltersSchema>;
+
+/** Filtros de la búsqueda ya validados */
+export type ProjectSearchFilters = z.infer<typeof ProjectSearchFiltersSchema>;
+
+/** Orden manual y destacados */
+export type ProjectCuration = z.infer<typeof ProjectCurationSchema>;
+
+/**
+ * Tipo completo de proyecto (`image` solo existe tras la ingesta,
+ * `locked_fields`, `status` y la curación los gestiona el equipo, nunca
+ * el extractor)
+ */
+export type Project = z.infer<typeof ProjectSchema> &
+  Partial<ProjectCuration> & {
+    image?: ProjectImage | null;
+    locked_fields?: LockableField[];
+    status?: ProjectStatus;
+  };
+
+/**
+ * Página de /api/projects. `nextCursor` se pasa como `?cursor=` para
+ * pedir la siguiente (null en la última); `total` cuenta todos los
+ * proyectos que cumplen los filtros, no solo los de la página.
+ */
+export type ProjectPage = {
+  projects: Project[];
+  nextCursor: string | null;
+  total: number;
+};
+
+/**
+ * Resultado de /api/projects/search: el proyecto, su relevancia y un
+ * fragmento de la descripción por idioma con las coincidencias en
+ * `<mark>` (HTML ya escapado en el servidor).
+ */
+export type ProjectSearchResult = Project & {
+  rank: number;
+  snippet: LocalizedTextType;
+};
+
+/**
+ * Entrada de /api/projects/techs: tecnología principal (nombre canónico)
+ * y proyectos publicados que la tienen como primary_tech.
+ */
+export type TechCount = {
+  name: string;
+  count: number;
+};
+
+/**
+ * Uso de una tecnología en los proyectos publicados. `first_used` es el
+ * alta del primer proyecto que la usa y `last_used` la última
+ * actualización de uno que la usa.
+ */
+export type TechStat = {
+  name: string;
+  category: TechCategory | null;
+  primary_count: number; // Proyectos con ella como primary_tech
+  stack_count: number; // Proyectos con ella en tech_stack
+  first_used: string;
+  last_used: string;
+};
+
+/**
+ * Respuesta de /api/stats/techs. `cooccurrence.matrix[i][j]` cuenta los
+ * proyectos que usan a la vez `techs[i]` y `techs[j]` (la diagonal, los
+ * que usan `techs[i]`); mismo orden que `techs`. `categories` cuenta
+ * los proyectos que usan alguna tecnología de cada categoría.
+ */
+export type TechStats = {
+  total_projects: number;
+  techs: TechStat[];
+  categories: Record<TechCategory, number>;
+  cooccurrence: {
+    techs: string[];
+    matrix: number[][];
+  };
+};
+
+/** Autor (o escuela) de un curso, deduplicado entre proyectos */
+export type CourseAuthor = {
+  slug: string;
+  name: string;
+  url: string | null;
+};
+
+/**
+ * Entrada de /api/courses: un curso con sus proyectos publicados en el
+ * orden en que se hicieron (el "camino de aprendizaje").
+ */
+export type CourseWithProjects = {
+  slug: string;
+  name: string;
+  url: string | null;
+  author: CourseAuthor | null;
+  projects: Project[];
+};
+
+/** Manifest parcial declarado en el repositorio */
+export type ProjectManifest = z.infer<typeof ProjectManifestSchema>;
@@ -2,7 +2,8 @@
  * [SCRIPT] :: TEST_AI
  * ----------------------------------------------------------------------
  * Utilidad para validar la extracción de datos mediante IA de forma aislada.
- * Descarga el README de un repo y lo procesa con DeepSeek.
+ * Descarga el README de un repo y lo procesa con el proveedor configurado
+ * (NUXT_AI_PROVIDER: openai | ollama | stub).
  *
  * @module    shared/scripts
  * @architect Samuh Lo
@@ -10,6 +11,7 @@
  */
 
 import { extractProjectData } from "../../../server/utils/ai";
+import { createExtractionProvider } from "../../../server/utils/providers";
 import { config } from "dotenv";
 
 // Load environment variables locally
@@ -33,10 +35,13 @@ const FALLBACK_BRANCH = "master";
  */
 async function processContent(content: string, repoUrl: string) {
   console.log(`[INFO]  :: README_SIZE   :: ${content.length} chars`);
-  console.log("[AI]    >> SENDING       :: Processing with DeepSeek...");
+  const provider = createExtractionProvider();
+  console.log(
+    `[AI]    >> SENDING       :: provider: ${provider.name} | model: ${provider.model}`
+  );
 
   const startTime = Date.now();
-  const data = await extractProjectData(content, repoUrl);
+  const data = await extractProjectData(content, repoUrl, provider);
   const duration = Date.now() - startTime;
 
   console.log(
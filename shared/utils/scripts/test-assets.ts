@@ -0,0 +1,213 @@
+/**
+ * [SCRIPT] :: TEST_ASSETS
+ * ----------------------------------------------------------------------
+ * Comprueba la verificación de assets contra un servidor HTTP local que
+ * hace de raw.githubusercontent y de demos (sin red externa).
+ * Sale con código 1 si algún caso falla.
+ *
+ * @module    shared/scripts
+ * @architect Samuh Lo
+ * ----------------------------------------------------------------------
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  verifyDemoUrl,
+  verifyImageUrl,
+  verifyProjectAssets,
+  type AssetContext,
+  type AssetOptions,
+} from "../../../server/utils/assets";
+
+// =====================================================================
+// [SECTION] :: CONFIGURATION
+// =====================================================================
+
+const TIMEOUT_MS = 300;
+const SLOW_DELAY_MS = 1000;
+const PNG = "image/png";
+const HTML = "text/html";
+
+const README = [
+  "# Demo",
+  "![screenshot](./docs/img/shot.png)",
+  '<img src="assets/logo.svg" />',
+].join("\n");
+
+/**
+ * [DATA] :: ROUTES
+ * path -> [status, content-type]. Lo que no esté aquí es 404.
+ */
+const ROUTES: Record<string, [number, string]> = {
+  "/me/app/master/docs/img/shot.png": [200, PNG], // Solo existe en master
+  "/me/app/main/assets/logo.svg": [200, "text/plain; charset=utf-8"],
+  "/me/app/main/banner.png": [200, HTML], // Miente: es una página
+  "/demo": [200, HTML],
+  "/blocked-demo": [403, HTML],
+  "/broken-demo": [404, HTML],
+  "/down-demo": [503, HTML], // Caída temporal: no es una demo rota
+};
+
+// =====================================================================
+// [SECTION] :: STAND-IN SERVER
+// =====================================================================
+
+function startServer(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const path = (req.url || "/").split("?")[0]!;
+
+    if (path === "/slow") {
+      setTimeout(
+        () => res.writeHead(200, { "content-type": PNG }).end(),
+        SLOW_DELAY_MS
+      );
+      return;
+    }
+    if (path === "/no-head.png") {
+      // Servidores que rechazan HEAD pero responden a GET
+      const status = req.method === "HEAD" ? 405 : 200;
+      res.writeHead(status, { "content-type": PNG }).end();
+      return;
+    }
+
+    const [status, type] = ROUTES[path] ?? [404, HTML];
+    res.writeHead(status, { "content-type": type }).end();
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  );
+}
+
+// =====================================================================
+// [SECTION] :: MAIN EXECUTION
+// =====================================================================
+
+async function main() {
+  const server = await startServer();
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const options: AssetOptions = { rawBaseUrl: base, timeoutMs: TIMEOUT_MS };
+  const ctx: AssetContext = {
+    owner: "me",
+    repo: "app",
+    branch: "main",
+    readme: README,
+  };
+
+  let failures = 0;
+  const expect = (name: string, condition: boolean, detail: unknown) => {
+    if (!condition) failures++;
+    console.log(
+      `[TEST]  ${condition ? "++ PASS" : ":: FAIL"}          :: ${name}${
+        condition ? "" : ` | got: ${JSON.stringify(detail)}`
+      }`
+    );
+  };
+
+  try {
+    const branchFix = await verifyImageUrl(
+      `${base}/me/app/main/docs/img/shot.png`,
+      ctx,
+      options
+    );
+    expect(
+      "wrong branch -> master",
+      branchFix.url === `${base}/me/app/master/docs/img/shot.png`,
+      branchFix
+    );
+
+    const pathFix = await verifyImageUrl(
+      `${base}/me/app/main/shot.png`,
+      ctx,
+      options
+    );
+    expect(
+      "wrong path -> README path",
+      pathFix.ok && pathFix.url.endsWith("/docs/img/shot.png"),
+      pathFix
+    );
+
+    const svg = await verifyImageUrl(
+      `${base}/me/app/main/assets/logo.svg`,
+      ctx,
+      options
+    );
+    expect("svg as text/plain accepted", svg.ok, svg);
+
+    const notImage = await verifyImageUrl(
+      `${base}/elsewhere/banner.png`,
+      ctx,
+      options
+    );
+    expect(
+      "external 404 rejected",
+      !notImage.ok && notImage.reason === "HTTP 404",
+      notImage
+    );
+
+    const html = await verifyImageUrl(
+      `${base}/me/app/main/banner.png`,
+      { ...ctx, readme: "" },
+      options
+    );
+    expect(
+      "html content-type rejected",
+      !html.ok && !!html.reason?.startsWith("not an image"),
+      html
+    );
+
+    const noHead = await verifyImageUrl(`${base}/no-head.png`, ctx, options);
+    expect("HEAD 405 falls back to GET", noHead.ok, noHead);
+
+    const slow = await verifyImageUrl(`${base}/slow`, ctx, options);
+    expect(
+      "timeout reported as transient",
+      !slow.ok && !!slow.reason?.startsWith("timeout") && !!slow.transient,
+      slow
+    );
+
+    const demo = await verifyDemoUrl(`${base}/demo`, options);
+    expect("demo 200 ok", demo.ok, demo);
+
+    const blocked = await verifyDemoUrl(`${base}/blocked-demo`, options);
+    expect("demo 403 treated as reachable", blocked.ok, blocked);
+
+    const report = await verifyProjectAssets(
+      {
+        img_url: `${base}/me/app/main/missing.png`,
+        demo_url: `${base}/broken-demo`,
+      },
+      { ...ctx, readme: "" },
+      options
+    );
+    expect(
+      "report nulls broken assets with reasons",
+      report.imgUrl === null &&
+        report.demoUrl === null &&
+        report.reasons.length === 2,
+      report.reasons
+    );
+
+    const flaky = await verifyProjectAssets(
+      { img_url: `${base}/slow`, demo_url: `${base}/down-demo` },
+      { ...ctx, readme: "" },
+      options
+    );
+    expect(
+      "report keeps assets on timeout/5xx",
+      flaky.imgUrl === `${base}/slow` &&
+        flaky.demoUrl === `${base}/down-demo` &&
+        flaky.reasons.length === 0 &&
+        flaky.unverified.length === 2,
+      flaky
+    );
+  } finally {
+    server.close();
+  }
+
+  console.log(`\n[DONE]  :: ASSETS_TEST   :: failures: ${failures}`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();